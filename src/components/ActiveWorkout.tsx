@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle, Flag, Pause, Play, Plus, SkipForward, Timer, X } from 'lucide-react';
+import { WorkoutLog } from '@/data/exercises';
+import { activeWorkout, type ActiveWorkoutState } from '@/services/activeWorkout';
+import { formatTarget, parsePrescription } from '@/lib/prescription';
+import { PLATE_INCREMENT, formatWeight } from '@/lib/units';
+import { playRestCue, primeRestCue } from '@/lib/restCue';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+
+interface ActiveWorkoutProps {
+  workout: ActiveWorkoutState;
+  onFinish: (workoutLog: WorkoutLog) => Promise<boolean>; // resolves once the log is stored, false if it could not be
+}
+
+// Ignore rests that ran out long ago, e.g. while the page was closed
+const CUE_GRACE_MS = 5_000;
+
+const formatClock = (seconds: number) => {
+  const safe = Math.max(0, seconds);
+  return `${Math.floor(safe / 60)}:${String(safe % 60).padStart(2, '0')}`;
+};
+
+const ActiveWorkout = ({ workout, onFinish }: ActiveWorkoutProps) => {
+  const { exercise, completedSets, targetSets, restSeconds, restEndsAt, setStartedAt } = workout;
+  const prescription = parsePrescription(exercise);
+  const [unit] = useWeightUnit();
+  const lastSet = completedSets[completedSets.length - 1];
+  const [reps, setReps] = useState(lastSet?.reps || prescription.minReps);
+  const [weight, setWeight] = useState(lastSet?.weight || 0);
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const cuedRestEnd = useRef<number | null>(null);
+
+  const isResting = !!restEndsAt;
+  const isInSet = !!setStartedAt;
+  const restRemaining = isResting ? Math.ceil((restEndsAt - now) / 1000) : 0;
+  const setElapsed = isInSet ? Math.floor((now - setStartedAt) / 1000) : 0;
+  const allSetsDone = completedSets.length >= targetSets;
+
+  useEffect(() => {
+    if (!isResting && !isInSet) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [isResting, isInSet]);
+
+  useEffect(() => {
+    if (!restEndsAt || now < restEndsAt || cuedRestEnd.current === restEndsAt) return;
+    cuedRestEnd.current = restEndsAt;
+    if (now - restEndsAt < CUE_GRACE_MS) playRestCue();
+    activeWorkout.skipRest();
+  }, [now, restEndsAt]);
+
+  const handleStartSet = () => {
+    primeRestCue();
+    activeWorkout.beginSet();
+    setNow(Date.now());
+  };
+
+  const handleCompleteSet = () => {
+    primeRestCue();
+    // Timed holds default to the measured time when no value was entered
+    const value = reps || (prescription.measure === 'seconds' ? setElapsed : 0);
+    if (value <= 0) return;
+    activeWorkout.completeSet({ reps: value, weight, unit });
+    setNow(Date.now());
+  };
+
+  // The workout stays on screen until it is stored, so a failed save can be retried
+  const handleFinish = async () => {
+    const workoutLog = activeWorkout.toLog();
+    if (!workoutLog) return;
+
+    setIsFinishing(true);
+    const saved = await onFinish(workoutLog);
+    setIsFinishing(false);
+    if (saved) activeWorkout.finish();
+  };
+
+  return (
+    <Card className="bg-glass border-glass backdrop-blur-sm border-primary shadow-glow p-6 space-y-6 animate-fade-in">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">{exercise.name}</h2>
+          <p className="text-muted-foreground">
+            Target: {targetSets} × {formatTarget(prescription)}
+            {prescription.perSide && ' each side'}
+          </p>
+        </div>
+        <Badge variant="secondary">
+          Set {Math.min(completedSets.length + 1, targetSets)} of {targetSets}
+        </Badge>
+      </div>
+
+      <Progress value={(completedSets.length / targetSets) * 100} className="h-2" />
+
+      {isResting ? (
+        <div className="text-center space-y-4 py-4">
+          <div className="text-sm uppercase tracking-wide text-muted-foreground">Rest</div>
+          <div className="text-6xl font-bold text-primary tabular-nums">{formatClock(restRemaining)}</div>
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" onClick={() => activeWorkout.setRestSeconds(restSeconds - 15)}>-15s</Button>
+            <Button variant="outline" onClick={() => activeWorkout.setRestSeconds(restSeconds + 15)}>+15s</Button>
+            <Button variant="ghost" onClick={() => activeWorkout.skipRest()}>
+              <SkipForward className="w-4 h-4 mr-2" />
+              Skip
+            </Button>
+          </div>
+        </div>
+      ) : !allSetsDone && (
+        <div className="space-y-4">
+          {isInSet && (
+            <div className="text-center">
+              <div className="text-sm uppercase tracking-wide text-muted-foreground">Time under tension</div>
+              <div className="text-5xl font-bold text-secondary tabular-nums">{formatClock(setElapsed)}</div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">
+                {prescription.measure === 'seconds' ? 'Seconds' : 'Reps'}
+              </Label>
+              <Input
+                type="number"
+                value={reps || ''}
+                onChange={(e) => setReps(Math.max(0, parseInt(e.target.value) || 0))}
+                className="bg-background"
+                min="0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Weight ({unit})</Label>
+              <Input
+                type="number"
+                value={weight || ''}
+                onChange={(e) => setWeight(Math.max(0, parseFloat(e.target.value) || 0))}
+                className="bg-background"
+                min="0"
+                step={PLATE_INCREMENT[unit]}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            {!isInSet && (
+              <Button variant="outline" onClick={handleStartSet} className="flex-1">
+                <Play className="w-4 h-4 mr-2" />
+                Start Set
+              </Button>
+            )}
+            <Button onClick={handleCompleteSet} className="flex-1">
+              {isInSet ? <Pause className="w-4 h-4 mr-2" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+              Complete Set
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {allSetsDone && !isResting && (
+        <p className="text-center text-green-400 font-medium">All planned sets done. Add another or finish up.</p>
+      )}
+
+      {completedSets.length > 0 && (
+        <ul className="space-y-2">
+          {completedSets.map((set, index) => (
+            <li key={set.id} className="flex items-center justify-between text-sm p-2 rounded border border-border bg-muted/30">
+              <span>Set {index + 1}: {set.reps} × {formatWeight(set.weight, set.unit || 'kg')}</span>
+              {set.timeUnderTension !== undefined && (
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Timer className="w-3 h-3" />
+                  {formatClock(set.timeUnderTension)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t border-border">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Timer className="w-4 h-4" />
+          Rest between sets: {formatClock(restSeconds)}
+          {!isResting && (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => activeWorkout.setRestSeconds(restSeconds - 15)}>-</Button>
+              <Button variant="ghost" size="sm" onClick={() => activeWorkout.setRestSeconds(restSeconds + 15)}>+</Button>
+            </>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={() => activeWorkout.cancel()} className="text-destructive hover:text-destructive/80">
+            <X className="w-4 h-4 mr-2" />
+            Discard
+          </Button>
+          <Button variant="outline" onClick={() => activeWorkout.addSet()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Set
+          </Button>
+          <Button onClick={handleFinish} disabled={completedSets.length === 0 || isFinishing}>
+            <Flag className="w-4 h-4 mr-2" />
+            Finish & Log
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default ActiveWorkout;
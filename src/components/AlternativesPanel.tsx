@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ArrowLeftRight, ChevronDown, Undo2 } from 'lucide-react';
+import { Exercise, findExerciseById, getAllExercises } from '@/data/exercises';
+import { getAlternatives } from '@/lib/substitutions';
+import { useWorkoutSessions } from '@/hooks/use-workout-sessions';
+import { useEquipmentProfiles } from '@/hooks/use-equipment-profiles';
+import { getAvailableEquipment, isExerciseAvailable } from '@/services/equipmentProfiles';
+import { findSwappedFrom, getActiveSwaps, workoutSessions } from '@/services/workoutSessions';
+
+interface AlternativesPanelProps {
+  exercise: Exercise;
+}
+
+/**
+ * Exercises that can stand in for this one, e.g. when its machine is taken.
+ * Swapping lasts for the current session; logs of the substitute remember
+ * which exercise they replaced.
+ */
+const AlternativesPanel = ({ exercise }: AlternativesPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const swaps = getActiveSwaps(useWorkoutSessions());
+  const availableEquipment = getAvailableEquipment(useEquipmentProfiles());
+
+  const plannedId = findSwappedFrom(exercise.id, swaps);
+  const planned = plannedId ? findExerciseById(plannedId) : null;
+  // Alternatives to the planned exercise, so swapping again doesn't drift further away from it
+  const alternatives = getAlternatives(planned || exercise, getAllExercises())
+    .filter(alternative => alternative.id !== exercise.id && isExerciseAvailable(alternative, availableEquipment));
+
+  if (!planned && alternatives.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="p-3 rounded-md border border-border bg-muted/30 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="px-0 text-sm font-medium text-muted-foreground hover:bg-transparent">
+            <ArrowLeftRight className="w-4 h-4 mr-2" />
+            Alternatives ({alternatives.length})
+            <ChevronDown className={`w-4 h-4 ml-1 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+        {planned && (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => workoutSessions.swap(exercise.id, planned.id)}>
+            <Undo2 className="w-3 h-3 mr-1" />
+            Back to {planned.name}
+          </Button>
+        )}
+      </div>
+      {planned && (
+        <p className="text-xs text-muted-foreground">Swapped in for {planned.name} this session</p>
+      )}
+
+      <CollapsibleContent className="space-y-2">
+        {alternatives.map(alternative => (
+          <div key={alternative.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="min-w-0">
+              <div className="font-medium text-foreground truncate">{alternative.name}</div>
+              <div className="text-xs text-muted-foreground capitalize truncate">
+                {alternative.difficulty}
+                {alternative.equipment.length > 0 && ` • ${alternative.equipment.join(', ')}`}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => workoutSessions.swap(exercise.id, alternative.id)}>
+              Swap
+            </Button>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default AlternativesPanel;
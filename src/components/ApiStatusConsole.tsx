@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { CheckCircle, Info, AlertCircle, Trash2, Terminal } from 'lucide-react';
 import { apiLogger, type ApiEvent } from '@/lib/apiLogger';
+import type { RejectedRow } from '@/services/sheetParser';
 
 const statusIcon = {
   success: CheckCircle,
@@ -118,7 +119,16 @@ const ApiStatusConsole = () => {
                         {formatTime(evt.timestamp)}
                       </div>
                     </div>
-                    {evt.meta && (
+                    {Array.isArray(evt.meta?.rejectedRows) && (
+                      <ul className="mt-2 space-y-1 text-xs text-destructive/90">
+                        {(evt.meta.rejectedRows as RejectedRow[]).map((row) => (
+                          <li key={row.rowNumber}>
+                            Row {row.rowNumber}: {row.reasons.join('; ')}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {evt.meta && !evt.meta.rejectedRows && (
                       <pre className="mt-2 text-xs text-muted-foreground/90 overflow-x-auto">
                         {JSON.stringify(evt.meta, null, 2)}
                       </pre>
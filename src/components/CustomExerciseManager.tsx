@@ -0,0 +1,436 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Pencil, Plus, RefreshCw, Trash2, Wrench } from 'lucide-react';
+import { Exercise } from '@/data/exercises';
+import {
+  MOVEMENT_PATTERN_LABELS,
+  MUSCLES,
+  MUSCLE_GROUPS,
+  MUSCLE_LABELS,
+  defaultAnatomy,
+  type Laterality,
+  type Mechanics,
+  type MovementPattern,
+  type Muscle,
+} from '@/data/exerciseTaxonomy';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomExercises } from '@/hooks/use-custom-exercises';
+import { createCustomExerciseId, customExercises, type CustomExercise } from '@/services/customExercises';
+import type { GoogleSheetsService } from '@/services/googleSheets';
+
+interface CustomExerciseManagerProps {
+  googleSheetsService: GoogleSheetsService | null;
+}
+
+type ExerciseDraft = Omit<Exercise, 'equipment' | 'equipmentTags' | 'custom'> & { equipment: string };
+
+const DIFFICULTIES: Exercise['difficulty'][] = ['beginner', 'intermediate', 'professional'];
+const MECHANICS: Mechanics[] = ['compound', 'isolation'];
+const LATERALITIES: Laterality[] = ['bilateral', 'unilateral', 'alternating'];
+
+const emptyDraft = (): ExerciseDraft => ({
+  id: createCustomExerciseId(),
+  name: '',
+  muscleGroup: MUSCLE_GROUPS[0],
+  difficulty: 'beginner',
+  sets: '3',
+  reps: '8-12',
+  equipment: '',
+  tips: '',
+  ...defaultAnatomy(MUSCLE_GROUPS[0]),
+});
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const CustomExerciseManager = ({ googleSheetsService }: CustomExerciseManagerProps) => {
+  const exercises = useCustomExercises();
+  const [draft, setDraft] = useState<ExerciseDraft | null>(null);
+  const [editing, setEditing] = useState<CustomExercise | null>(null);
+  const [deleting, setDeleting] = useState<CustomExercise | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { toast } = useToast();
+
+  // Mirrors the list, tombstones included, to the sheet tab when signed in; local changes stand either way
+  const pushToSheet = async () => {
+    if (!googleSheetsService?.canWrite()) return;
+    try {
+      // Rows another device added since our last sync would be lost by writing over them unmerged
+      customExercises.merge(await googleSheetsService.getCustomExercises());
+      await googleSheetsService.saveCustomExercises(customExercises.getRecords());
+    } catch (error) {
+      toast({
+        title: "Sheet Not Updated",
+        description: error instanceof Error ? error.message : "Could not save custom exercises to Google Sheets",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openEditor = (exercise?: CustomExercise) => {
+    setEditing(exercise || null);
+    setDraft(exercise ? { ...exercise, equipment: exercise.equipment.join(', ') } : emptyDraft());
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || draft.primaryMuscles.length === 0) {
+      toast({
+        title: draft.name.trim() ? "Missing Muscles" : "Missing Name",
+        description: draft.name.trim()
+          ? "Pick at least one primary muscle"
+          : "Give the exercise a name before saving",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = customExercises.save({
+      ...editing,
+      id: draft.id,
+      name: draft.name.trim(),
+      muscleGroup: draft.muscleGroup,
+      difficulty: draft.difficulty,
+      sets: draft.sets.trim() || '3',
+      reps: draft.reps.trim() || '10',
+      equipment: draft.equipment.split(',').map(item => item.trim()).filter(Boolean),
+      tips: draft.tips.trim(),
+      primaryMuscles: draft.primaryMuscles,
+      secondaryMuscles: draft.secondaryMuscles.filter(muscle => !draft.primaryMuscles.includes(muscle)),
+      movementPattern: draft.movementPattern,
+      mechanics: draft.mechanics,
+      laterality: draft.laterality,
+    });
+    setDraft(null);
+    setEditing(null);
+    toast({
+      title: editing ? "Exercise Updated" : "Exercise Added",
+      description: `${saved.name} is now in the ${capitalize(saved.muscleGroup)} ${saved.difficulty} list`,
+    });
+    await pushToSheet();
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleting) return;
+    customExercises.remove(deleting.id);
+    setDeleting(null);
+    await pushToSheet();
+  };
+
+  const handleSync = async () => {
+    if (!googleSheetsService) return;
+    setIsSyncing(true);
+    try {
+      const remote = await googleSheetsService.getCustomExercises();
+      const merged = customExercises.merge(remote);
+      const shared = remote.filter(exercise => !exercise.deletedAt).length;
+      await pushToSheet();
+      toast({
+        title: "Custom Exercises Synced",
+        description: `${merged.length} exercise${merged.length === 1 ? '' : 's'} after merging ${shared} from Google Sheets`,
+      });
+    } catch (error) {
+      toast({
+        title: "Sync Failed",
+        description: error instanceof Error ? error.message : "Could not read custom exercises from Google Sheets",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-end gap-2">
+        {googleSheetsService && (
+          <Button variant="outline" onClick={handleSync} disabled={isSyncing}>
+            {isSyncing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Sync with Sheet
+          </Button>
+        )}
+        <Button onClick={() => openEditor()}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Exercise
+        </Button>
+      </div>
+
+      {exercises.length === 0 ? (
+        <Card className="bg-glass border-glass backdrop-blur-sm p-8 text-center">
+          <Wrench className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-foreground mb-2">
+            No Custom Exercises
+          </h3>
+          <p className="text-muted-foreground">
+            Add the machines and movements your gym has and they will show up next to the built-in exercises.
+          </p>
+        </Card>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {exercises.map(exercise => (
+            <Card key={exercise.id} className="bg-glass border-glass backdrop-blur-sm p-4 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold text-foreground">{exercise.name}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {capitalize(exercise.muscleGroup)} • {exercise.sets} × {exercise.reps}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {MOVEMENT_PATTERN_LABELS[exercise.movementPattern]} • {exercise.primaryMuscles.map(muscle => MUSCLE_LABELS[muscle]).join(', ')}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(exercise)} aria-label="Edit exercise">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleting(exercise)}
+                    aria-label="Delete exercise"
+                    className="text-destructive hover:text-destructive/80"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                <Badge variant="outline" className="capitalize">{exercise.difficulty}</Badge>
+                {exercise.equipment.map(item => (
+                  <Badge key={item} variant="secondary">{item}</Badge>
+                ))}
+              </div>
+              {exercise.tips && <p className="text-sm text-muted-foreground">{exercise.tips}</p>}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Exercise' : 'New Exercise'}</DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="exercise-name">Name</Label>
+                <Input
+                  id="exercise-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Hammer Strength Chest Press"
+                  className="bg-background"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Muscle group</Label>
+                  <Select
+                    value={draft.muscleGroup}
+                    onValueChange={(muscleGroup) => setDraft({ ...draft, muscleGroup, ...defaultAnatomy(muscleGroup, draft.reps) })}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MUSCLE_GROUPS.map(group => (
+                        <SelectItem key={group} value={group}>{capitalize(group)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Difficulty</Label>
+                  <Select
+                    value={draft.difficulty}
+                    onValueChange={(difficulty: Exercise['difficulty']) => setDraft({ ...draft, difficulty })}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DIFFICULTIES.map(level => (
+                        <SelectItem key={level} value={level}>{capitalize(level)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="exercise-sets">Sets</Label>
+                  <Input
+                    id="exercise-sets"
+                    value={draft.sets}
+                    onChange={(e) => setDraft({ ...draft, sets: e.target.value })}
+                    placeholder="3"
+                    className="bg-background"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="exercise-reps">Reps</Label>
+                  <Input
+                    id="exercise-reps"
+                    value={draft.reps}
+                    onChange={(e) => setDraft({ ...draft, reps: e.target.value })}
+                    placeholder="8-12, 30 seconds, 10 each leg"
+                    className="bg-background"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Primary muscles</Label>
+                <ToggleGroup
+                  type="multiple"
+                  value={draft.primaryMuscles}
+                  onValueChange={(primaryMuscles: Muscle[]) => setDraft({ ...draft, primaryMuscles })}
+                  variant="outline"
+                  size="sm"
+                  className="flex-wrap justify-start"
+                >
+                  {MUSCLES.map(muscle => (
+                    <ToggleGroupItem key={muscle} value={muscle} className="text-xs">{MUSCLE_LABELS[muscle]}</ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+              <div className="space-y-2">
+                <Label>Secondary muscles</Label>
+                <ToggleGroup
+                  type="multiple"
+                  value={draft.secondaryMuscles}
+                  onValueChange={(secondaryMuscles: Muscle[]) => setDraft({ ...draft, secondaryMuscles })}
+                  variant="outline"
+                  size="sm"
+                  className="flex-wrap justify-start"
+                >
+                  {MUSCLES.filter(muscle => !draft.primaryMuscles.includes(muscle)).map(muscle => (
+                    <ToggleGroupItem key={muscle} value={muscle} className="text-xs">{MUSCLE_LABELS[muscle]}</ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Pattern</Label>
+                  <Select
+                    value={draft.movementPattern}
+                    onValueChange={(movementPattern: MovementPattern) => setDraft({ ...draft, movementPattern })}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MOVEMENT_PATTERN_LABELS) as MovementPattern[]).map(pattern => (
+                        <SelectItem key={pattern} value={pattern}>{MOVEMENT_PATTERN_LABELS[pattern]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Mechanics</Label>
+                  <Select value={draft.mechanics} onValueChange={(mechanics: Mechanics) => setDraft({ ...draft, mechanics })}>
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MECHANICS.map(value => (
+                        <SelectItem key={value} value={value}>{capitalize(value)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Sides</Label>
+                  <Select value={draft.laterality} onValueChange={(laterality: Laterality) => setDraft({ ...draft, laterality })}>
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LATERALITIES.map(value => (
+                        <SelectItem key={value} value={value}>{capitalize(value)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exercise-equipment">Equipment</Label>
+                <Input
+                  id="exercise-equipment"
+                  value={draft.equipment}
+                  onChange={(e) => setDraft({ ...draft, equipment: e.target.value })}
+                  placeholder="Comma separated, e.g. Machine, Bench"
+                  className="bg-background"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exercise-tips">Tips</Label>
+                <Textarea
+                  id="exercise-tips"
+                  value={draft.tips}
+                  onChange={(e) => setDraft({ ...draft, tips: e.target.value })}
+                  placeholder="Seat height, cues, form notes..."
+                  className="bg-background"
+                  rows={3}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save Exercise</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this exercise?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} will be removed from the catalog. Workouts already logged with it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CustomExerciseManager;
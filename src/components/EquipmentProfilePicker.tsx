@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { EQUIPMENT_TAG_LABELS, type EquipmentTag } from '@/data/exerciseTaxonomy';
+import { useToast } from '@/hooks/use-toast';
+import { useEquipmentProfiles } from '@/hooks/use-equipment-profiles';
+import {
+  PROFILE_EQUIPMENT,
+  createEquipmentProfile,
+  equipmentProfiles,
+  type EquipmentProfile,
+} from '@/services/equipmentProfiles';
+
+/**
+ * Picks where we're training today and whether exercise lists only show what
+ * that place has. The dialog edits the saved profiles.
+ */
+const EquipmentProfilePicker = () => {
+  const { profiles, activeId, filterEnabled } = useEquipmentProfiles();
+  const [managing, setManaging] = useState(false);
+  const [draft, setDraft] = useState<EquipmentProfile | null>(null);
+  const [deleting, setDeleting] = useState<EquipmentProfile | null>(null);
+  const { toast } = useToast();
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Missing Name",
+        description: "Give the profile a name before saving",
+        variant: "destructive",
+      });
+      return;
+    }
+    equipmentProfiles.save({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3">
+      <Select value={activeId || ''} onValueChange={(profileId) => equipmentProfiles.activate(profileId)}>
+        <SelectTrigger className="w-[180px] bg-background" aria-label="Equipment profile">
+          <SelectValue placeholder="Equipment profile" />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-2">
+        <Switch
+          id="equipment-filter"
+          checked={filterEnabled}
+          onCheckedChange={(checked) => equipmentProfiles.setFilterEnabled(checked)}
+          disabled={!activeId}
+        />
+        <Label htmlFor="equipment-filter" className="text-sm text-muted-foreground">Available only</Label>
+      </div>
+      <Button variant="ghost" size="sm" onClick={() => setManaging(true)} aria-label="Edit equipment profiles">
+        <Pencil className="w-4 h-4" />
+      </Button>
+
+      <Dialog
+        open={managing}
+        onOpenChange={(open) => {
+          setManaging(open);
+          if (!open) setDraft(null);
+        }}
+      >
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft ? (draft.name || 'New Profile') : 'Equipment Profiles'}</DialogTitle>
+          </DialogHeader>
+
+          {draft ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Garage gym"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Equipment</Label>
+                <ToggleGroup
+                  type="multiple"
+                  value={draft.equipment}
+                  onValueChange={(equipment: EquipmentTag[]) => setDraft({ ...draft, equipment })}
+                  variant="outline"
+                  size="sm"
+                  className="flex-wrap justify-start"
+                >
+                  {PROFILE_EQUIPMENT.map(tag => (
+                    <ToggleGroupItem key={tag} value={tag} className="h-7 text-xs">{EQUIPMENT_TAG_LABELS[tag]}</ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <p className="text-xs text-muted-foreground">Bodyweight and household exercises are always available.</p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {profiles.map(profile => (
+                <div key={profile.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-muted/30">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{profile.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {profile.equipment.length > 0
+                        ? profile.equipment.map(tag => EQUIPMENT_TAG_LABELS[tag]).join(', ')
+                        : 'Bodyweight only'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(profile)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDeleting(profile)}
+                      className="text-destructive hover:text-destructive/80"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            {draft ? (
+              <>
+                <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button onClick={handleSave}>Save Profile</Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => setDraft(createEquipmentProfile())}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Profile
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this profile?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} will be removed. Exercises and logs are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                equipmentProfiles.remove(deleting.id);
+                setDeleting(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EquipmentProfilePicker;
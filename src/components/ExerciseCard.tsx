@@ -1,22 +1,30 @@
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Clock, Dumbbell } from 'lucide-react';
-
-interface Exercise {
-  id: string;
-  name: string;
-  sets: string;
-  reps: string;
-  equipment: string[];
-  tips: string;
-  difficulty: 'beginner' | 'intermediate' | 'professional';
-}
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Clock, Dumbbell } from 'lucide-react';
+import { Exercise, getAllExercises } from '@/data/exercises';
+import { EQUIPMENT_TAG_LABELS, MOVEMENT_PATTERN_LABELS, MUSCLE_LABELS } from '@/data/exerciseTaxonomy';
+import { findSubstitutes } from '@/lib/substitutions';
+import { useEquipmentProfiles } from '@/hooks/use-equipment-profiles';
+import { getActiveProfile, getMissingEquipment, isExerciseAvailable } from '@/services/equipmentProfiles';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import RecommendationPanel from './RecommendationPanel';
+import AlternativesPanel from './AlternativesPanel';
 
 interface ExerciseCardProps {
   exercise: Exercise;
+  workoutRepository?: WorkoutRepository;
+  refreshKey?: unknown;
+  onSelectSubstitute?: (exercise: Exercise) => void;
 }
 
-const ExerciseCard = ({ exercise }: ExerciseCardProps) => {
+const ExerciseCard = ({ exercise, workoutRepository, refreshKey, onSelectSubstitute }: ExerciseCardProps) => {
+  const activeProfile = getActiveProfile(useEquipmentProfiles());
+  const missingEquipment = activeProfile ? getMissingEquipment(exercise, activeProfile.equipment) : [];
+  const substitutes = missingEquipment.length > 0
+    ? findSubstitutes(exercise, getAllExercises().filter(candidate => isExerciseAvailable(candidate, activeProfile.equipment)))
+    : [];
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'beginner': return 'bg-green-500/20 text-green-400 border-green-500/30';
@@ -34,9 +42,12 @@ const ExerciseCard = ({ exercise }: ExerciseCardProps) => {
           <h3 className="text-xl font-bold group-hover:text-primary transition-colors">
             {exercise.name}
           </h3>
-          <Badge className={getDifficultyColor(exercise.difficulty)}>
-            {exercise.difficulty}
-          </Badge>
+          <div className="flex gap-2">
+            {exercise.custom && <Badge variant="outline">Custom</Badge>}
+            <Badge className={getDifficultyColor(exercise.difficulty)}>
+              {exercise.difficulty}
+            </Badge>
+          </div>
         </div>
 
         {/* Sets & Reps */}
@@ -53,6 +64,17 @@ const ExerciseCard = ({ exercise }: ExerciseCardProps) => {
           </div>
         </div>
 
+        {/* Muscles */}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant="outline">{MOVEMENT_PATTERN_LABELS[exercise.movementPattern]} • {exercise.mechanics}</Badge>
+          {exercise.primaryMuscles.map(muscle => (
+            <Badge key={muscle} className="bg-primary/20 text-primary border-primary/30">{MUSCLE_LABELS[muscle]}</Badge>
+          ))}
+          {exercise.secondaryMuscles.map(muscle => (
+            <Badge key={muscle} variant="outline" className="text-muted-foreground">{MUSCLE_LABELS[muscle]}</Badge>
+          ))}
+        </div>
+
         {/* Equipment */}
         {exercise.equipment.length > 0 && (
           <div className="space-y-2">
@@ -67,6 +89,38 @@ const ExerciseCard = ({ exercise }: ExerciseCardProps) => {
           </div>
         )}
 
+        {/* Substitutions */}
+        {missingEquipment.length > 0 && (
+          <div className="space-y-2 p-3 rounded-md border border-yellow-500/30 bg-yellow-500/10">
+            <p className="flex items-center gap-2 text-sm text-yellow-400">
+              <AlertTriangle className="w-4 h-4" />
+              {activeProfile.name} has no {missingEquipment.map(tag => EQUIPMENT_TAG_LABELS[tag]).join(', ')}
+            </p>
+            {substitutes.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground">Try instead:</span>
+                {substitutes.map(substitute => (
+                  onSelectSubstitute ? (
+                    <Button key={substitute.id} variant="outline" size="sm" className="h-7 text-xs" onClick={() => onSelectSubstitute(substitute)}>
+                      {substitute.name}
+                    </Button>
+                  ) : (
+                    <Badge key={substitute.id} variant="outline">{substitute.name}</Badge>
+                  )
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Alternatives */}
+        <AlternativesPanel exercise={exercise} />
+
+        {/* Progression */}
+        {workoutRepository && (
+          <RecommendationPanel exercise={exercise} workoutRepository={workoutRepository} refreshKey={refreshKey} />
+        )}
+
         {/* Tips */}
         <div className="space-y-2">
           <p className="text-sm font-medium text-muted-foreground">Form tips:</p>
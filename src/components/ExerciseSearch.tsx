@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Search } from 'lucide-react';
+import { Exercise, getAllExercises } from '@/data/exercises';
+import {
+  EQUIPMENT_TAG_LABELS,
+  MOVEMENT_PATTERN_LABELS,
+  MUSCLE_GROUPS,
+  MUSCLE_LABELS,
+  type EquipmentTag,
+} from '@/data/exerciseTaxonomy';
+import { useCustomExercises } from '@/hooks/use-custom-exercises';
+import { useEquipmentProfiles } from '@/hooks/use-equipment-profiles';
+import { getAvailableEquipment, isExerciseAvailable } from '@/services/equipmentProfiles';
+
+interface ExerciseSearchProps {
+  onSelectExercise: (exercise: Exercise) => void;
+}
+
+const DIFFICULTIES: Exercise['difficulty'][] = ['beginner', 'intermediate', 'professional'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Everything besides the name that a search should match, handed to cmdk's fuzzy scorer
+const searchKeywords = (exercise: Exercise) => [
+  exercise.muscleGroup,
+  exercise.difficulty,
+  MOVEMENT_PATTERN_LABELS[exercise.movementPattern],
+  ...exercise.equipment,
+  ...exercise.equipmentTags.map(tag => EQUIPMENT_TAG_LABELS[tag]),
+  ...[...exercise.primaryMuscles, ...exercise.secondaryMuscles].map(muscle => MUSCLE_LABELS[muscle]),
+];
+
+/**
+ * Command palette over the whole catalog, custom exercises included. Typing
+ * matches names, equipment, muscles and difficulty; the toggles narrow the
+ * list before matching, as does the equipment profile when filtering is on.
+ * Opens with Ctrl+K / ⌘K.
+ */
+const ExerciseSearch = ({ onSelectExercise }: ExerciseSearchProps) => {
+  const [open, setOpen] = useState(false);
+  const [difficulties, setDifficulties] = useState<string[]>([]);
+  const [muscleGroups, setMuscleGroups] = useState<string[]>([]);
+  const [equipment, setEquipment] = useState<EquipmentTag[]>([]);
+  // Re-renders when custom exercises change
+  useCustomExercises();
+  const availableEquipment = getAvailableEquipment(useEquipmentProfiles());
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const exercises = getAllExercises().filter(exercise =>
+    (difficulties.length === 0 || difficulties.includes(exercise.difficulty))
+    && (muscleGroups.length === 0 || muscleGroups.includes(exercise.muscleGroup))
+    && (equipment.length === 0 || exercise.equipmentTags.some(tag => equipment.includes(tag)))
+    && isExerciseAvailable(exercise, availableEquipment)
+  );
+  const usedEquipment = Array.from(new Set(getAllExercises().flatMap(exercise => exercise.equipmentTags)));
+
+  const handleSelect = (exercise: Exercise) => {
+    setOpen(false);
+    onSelectExercise(exercise);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
+      >
+        <Search className="w-4 h-4 mr-2" />
+        Search Exercises
+        <kbd className="ml-3 hidden sm:inline-flex items-center rounded border border-border px-1.5 text-[10px] text-muted-foreground">
+          ⌘K
+        </kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <CommandInput placeholder="Search by name, equipment, muscle or difficulty..." />
+
+        <div className="space-y-2 border-b border-border p-3">
+          <ToggleGroup
+            type="multiple"
+            value={difficulties}
+            onValueChange={setDifficulties}
+            variant="outline"
+            size="sm"
+            className="flex-wrap justify-start"
+          >
+            {DIFFICULTIES.map(level => (
+              <ToggleGroupItem key={level} value={level} className="h-7 text-xs">{capitalize(level)}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <ToggleGroup
+            type="multiple"
+            value={muscleGroups}
+            onValueChange={setMuscleGroups}
+            variant="outline"
+            size="sm"
+            className="flex-wrap justify-start"
+          >
+            {MUSCLE_GROUPS.map(group => (
+              <ToggleGroupItem key={group} value={group} className="h-7 text-xs">{capitalize(group)}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <ToggleGroup
+            type="multiple"
+            value={equipment}
+            onValueChange={(value: EquipmentTag[]) => setEquipment(value)}
+            variant="outline"
+            size="sm"
+            className="flex-wrap justify-start"
+          >
+            {usedEquipment.map(tag => (
+              <ToggleGroupItem key={tag} value={tag} className="h-7 text-xs">{EQUIPMENT_TAG_LABELS[tag]}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <CommandList className="max-h-[50vh]">
+          <CommandEmpty>No exercises match.</CommandEmpty>
+          {MUSCLE_GROUPS.map(group => {
+            const matches = exercises.filter(exercise => exercise.muscleGroup === group);
+            if (matches.length === 0) return null;
+
+            return (
+              <CommandGroup key={group} heading={capitalize(group)}>
+                {matches.map(exercise => (
+                  <CommandItem
+                    key={exercise.id}
+                    value={`${exercise.name} ${exercise.id}`}
+                    keywords={searchKeywords(exercise)}
+                    onSelect={() => handleSelect(exercise)}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{exercise.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {exercise.primaryMuscles.map(muscle => MUSCLE_LABELS[muscle]).join(', ')}
+                        {exercise.equipment.length > 0 && ` • ${exercise.equipment.join(', ')}`}
+                      </div>
+                    </div>
+                    {exercise.custom && <Badge variant="outline" className="ml-2">Custom</Badge>}
+                    <CommandShortcut className="capitalize tracking-normal">{exercise.difficulty}</CommandShortcut>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default ExerciseSearch;
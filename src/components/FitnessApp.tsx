@@ -1,14 +1,46 @@
-import { useState, useEffect } from 'react';
-import { ArrowLeft, Dumbbell, Settings, TrendingUp } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, CalendarCheck, CalendarDays, CloudUpload, Dumbbell, History, Settings, Sparkles, TrendingUp, Trophy, Wrench } from 'lucide-react';
 import BodyPartCard from './BodyPartCard';
 import DifficultyModal from './DifficultyModal';
 import ExerciseCard from './ExerciseCard';
 import WorkoutLogger from './WorkoutLogger';
 import ProgressTracker from './ProgressTracker';
 import GoogleSheetsSetup from './GoogleSheetsSetup';
-import { exercises } from '@/data/exercises';
+import SyncPanel from './SyncPanel';
+import WorkoutHistory from './WorkoutHistory';
+import UnitToggle from './UnitToggle';
+import SessionBanner from './SessionBanner';
+import SessionChart from './SessionChart';
+import ActiveWorkout from './ActiveWorkout';
+import PersonalRecordsBoard from './PersonalRecordsBoard';
+import ProgramManager from './ProgramManager';
+import ProgramDayWorkout from './ProgramDayWorkout';
+import TodayWorkout from './TodayWorkout';
+import CustomExerciseManager from './CustomExerciseManager';
+import ExerciseSearch from './ExerciseSearch';
+import EquipmentProfilePicker from './EquipmentProfilePicker';
+import WorkoutGenerator from './WorkoutGenerator';
+import MuscleVolumeTracker from './MuscleVolumeTracker';
+import TrainingCalendar from './TrainingCalendar';
+import { Exercise, findExerciseById, getAllExercises, getExercisesFor } from '@/data/exercises';
 import { Button } from '@/components/ui/button';
 import { GoogleSheetsService, type GoogleSheetsConfig } from '@/services/googleSheets';
+import { createWorkoutRepository } from '@/services/workoutRepository';
+import { startOutboxReplay, syncOutbox } from '@/services/syncOutbox';
+import { useSyncOutbox } from '@/hooks/use-sync-outbox';
+import { findSwappedFrom, getActiveSwaps, resolveSwap, workoutSessions } from '@/services/workoutSessions';
+import { useWorkoutSessions } from '@/hooks/use-workout-sessions';
+import { activeWorkout } from '@/services/activeWorkout';
+import { useActiveWorkout } from '@/hooks/use-active-workout';
+import { useTrainingPrograms } from '@/hooks/use-training-programs';
+import { useEquipmentProfiles } from '@/hooks/use-equipment-profiles';
+import { getActiveProfile, getAvailableEquipment, isExerciseAvailable } from '@/services/equipmentProfiles';
+import { findSubstitutes } from '@/lib/substitutions';
+import { getScheduledDay, trainingPrograms, type TrainingProgram } from '@/services/trainingPrograms';
+import { useToast } from '@/hooks/use-toast';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+import { detectPersonalRecords, formatRecordValue, PERSONAL_RECORD_LABELS, type PersonalRecord } from '@/lib/personalRecords';
+import { oneRepMaxFormulaPreference } from '@/lib/oneRepMax';
 import { WorkoutLog } from '@/data/exercises';
 import { apiLogger } from '@/lib/apiLogger';
 
@@ -38,9 +70,27 @@ const FitnessApp = () => {
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [currentExercises, setCurrentExercises] = useState<any[]>([]);
-  const [currentView, setCurrentView] = useState<'home' | 'exercises' | 'progress' | 'setup'>('home');
+  const [currentView, setCurrentView] = useState<'home' | 'exercises' | 'progress' | 'history' | 'records' | 'programs' | 'today' | 'custom' | 'exercise' | 'generate' | 'generated' | 'calendar' | 'setup'>('home');
   const [googleSheetsService, setGoogleSheetsService] = useState<GoogleSheetsService | null>(null);
   const [isLogging, setIsLogging] = useState(false);
+  const workoutRepository = useMemo(() => createWorkoutRepository(googleSheetsService), [googleSheetsService]);
+  // Every log, synced ones included, is kept here too, so it can answer without a network read
+  const localRepository = useMemo(
+    () => googleSheetsService?.getLocalRepository() || workoutRepository,
+    [googleSheetsService, workoutRepository]
+  );
+  const pendingSyncs = useSyncOutbox();
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [searchedExercise, setSearchedExercise] = useState<Exercise | null>(null);
+  const [generatedProgram, setGeneratedProgram] = useState<TrainingProgram | null>(null);
+  const currentWorkout = useActiveWorkout();
+  const { programs, active: activeProgram } = useTrainingPrograms();
+  const scheduledDay = getScheduledDay(programs, activeProgram);
+  const equipmentState = useEquipmentProfiles();
+  const availableEquipment = getAvailableEquipment(equipmentState);
+  const swaps = getActiveSwaps(useWorkoutSessions());
+  const { toast } = useToast();
+  const [unit] = useWeightUnit();
 
   useEffect(() => {
     // Load Google Sheets config from localStorage
@@ -55,6 +105,12 @@ const FitnessApp = () => {
     }
   }, []);
 
+  useEffect(() => {
+    // Replay queued workouts to the sheet while a service is configured
+    if (!googleSheetsService) return;
+    return startOutboxReplay(googleSheetsService);
+  }, [googleSheetsService]);
+
   const handleBodyPartClick = (bodyPartKey: string, bodyPartName: string) => {
     setSelectedBodyPart(bodyPartKey);
     setShowModal(true);
@@ -63,22 +119,47 @@ const FitnessApp = () => {
   const handleDifficultySelect = (difficulty: Difficulty) => {
     if (selectedBodyPart) {
       setSelectedDifficulty(difficulty);
-      setCurrentExercises(exercises[selectedBodyPart]?.[difficulty] || []);
+      setCurrentExercises(getExercisesFor(selectedBodyPart, difficulty));
       setCurrentView('exercises');
     }
   };
 
-  const handleLogWorkout = async (workoutLog: WorkoutLog) => {
+  // Sheet history read so far is cached locally, so this needs no sheet fetch before saving
+  const findPersonalRecords = async (workoutLog: WorkoutLog) => {
+    try {
+      const history = await localRepository.query({ exerciseId: workoutLog.exerciseId });
+      return detectPersonalRecords(workoutLog, history, oneRepMaxFormulaPreference.get());
+    } catch (error) {
+      console.error('Error checking personal records:', error);
+      return [];
+    }
+  };
+
+  // Resolves to the personal records the workout set, or null when it could not be saved
+  const handleLogWorkout = async (workoutLog: WorkoutLog): Promise<PersonalRecord[] | null> => {
     setIsLogging(true);
     try {
-      if (googleSheetsService) {
-        await googleSheetsService.logWorkout(workoutLog);
-      } else {
-        // Fallback to localStorage only
-        const existingLogs = localStorage.getItem('workout_logs');
-        const logs = existingLogs ? JSON.parse(existingLogs) : [];
-        logs.push(workoutLog);
-        localStorage.setItem('workout_logs', JSON.stringify(logs));
+      const substitutedFor = workoutLog.substitutedFor || findSwappedFrom(workoutLog.exerciseId, workoutSessions.getActive()?.swaps);
+      const sessionId = workoutLog.sessionId || workoutSessions.ensure().id;
+      const records = await findPersonalRecords(workoutLog);
+      const saved = await workoutRepository.save({
+        ...workoutLog,
+        sessionId,
+        ...(substitutedFor && { substitutedFor }),
+        ...(records.length > 0 && { personalRecords: Array.from(new Set(records.map(record => record.type))) }),
+      });
+      workoutSessions.addLog(sessionId, saved.id);
+      setHistoryVersion(version => version + 1);
+
+      if (records.length > 0) {
+        toast({
+          title: `🏆 New personal record${records.length === 1 ? '' : 's'}!`,
+          description: records
+            .map(record => `${PERSONAL_RECORD_LABELS[record.type]}: ${formatRecordValue(record, unit)}`)
+            .join(' • '),
+        });
+      }
+      if (!googleSheetsService) {
         apiLogger.log({
           status: 'success',
           source: 'LocalStorage',
@@ -87,18 +168,100 @@ const FitnessApp = () => {
           meta: { exerciseId: workoutLog.exerciseId, sets: workoutLog.sets.length }
         });
       }
+      return records;
     } catch (error) {
       console.error('Error logging workout:', error);
+      toast({
+        title: "Workout Not Saved",
+        description: error instanceof Error ? error.message : "Could not save the workout, try logging it again",
+        variant: "destructive",
+      });
+      return null;
     } finally {
       setIsLogging(false);
     }
   };
 
+  const handleFinishLiveWorkout = async (workoutLog: WorkoutLog) => {
+    const records = await handleLogWorkout(workoutLog);
+    if (!records) return false;
+    if (records.length === 0) {
+      toast({
+        title: "Workout Logged!",
+        description: `${workoutLog.exerciseName}: ${workoutLog.sets.length} sets completed`,
+      });
+    }
+    return true;
+  };
+
+  // Sessions start when the visit does, so the first exercise counts towards its duration
+  const handleStartLiveWorkout = (exercise: Exercise) => {
+    workoutSessions.ensure();
+    activeWorkout.start(exercise);
+  };
+
+  const handleStartProgramDay = () => {
+    workoutSessions.ensure();
+    setCurrentView('today');
+  };
+
+  const handleCompleteProgramDay = () => {
+    if (!scheduledDay) return;
+    trainingPrograms.completeDay(scheduledDay.day.id);
+    workoutSessions.finish();
+    setCurrentView('home');
+    toast({
+      title: "Day Complete",
+      description: `${scheduledDay.program.name}: ${scheduledDay.day.name} done`,
+    });
+  };
+
+  const handleStartGenerated = (program: TrainingProgram) => {
+    workoutSessions.ensure();
+    setGeneratedProgram(program);
+    setCurrentView('generated');
+  };
+
+  const handleCompleteGenerated = () => {
+    if (!generatedProgram) return;
+    workoutSessions.finish();
+    setGeneratedProgram(null);
+    setCurrentView('home');
+    toast({
+      title: "Workout Complete",
+      description: `${generatedProgram.name} done`,
+    });
+  };
+
+  // The alternative swapped in for an exercise this session, if any
+  const swappedExercise = (exercise: Exercise) => findExerciseById(resolveSwap(exercise.id, swaps)) || exercise;
+
+  const handleSearchSelect = (exercise: Exercise) => {
+    setSearchedExercise(exercise);
+    setCurrentView('exercise');
+  };
+
   const handleConfigSave = (config: GoogleSheetsConfig) => {
     setGoogleSheetsService(new GoogleSheetsService(config));
     setCurrentView('home');
   };
 
+  // A live workout takes over the screen until it is finished or discarded
+  if (currentWorkout) {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <SessionBanner />
+          <ActiveWorkout
+            key={currentWorkout.startedAt}
+            workout={currentWorkout}
+            onFinish={handleFinishLiveWorkout}
+          />
+        </div>
+      </div>
+    );
+  }
+
   // Show setup view
   if (currentView === 'setup') {
     return (
@@ -118,6 +281,287 @@ const FitnessApp = () => {
     );
   }
 
+  // Show workout history view
+  if (currentView === 'history') {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Workout History</h1>
+            <div className="w-[120px] flex justify-end">
+              <UnitToggle />
+            </div>
+          </div>
+          <WorkoutHistory workoutRepository={workoutRepository} />
+        </div>
+      </div>
+    );
+  }
+
+  // Show an exercise picked from search
+  if (currentView === 'exercise' && searchedExercise) {
+    const shownExercise = swappedExercise(searchedExercise);
+
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-2xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <div className="w-[120px] flex justify-end">
+              <UnitToggle />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <SessionBanner />
+          </div>
+
+          <div className="space-y-4">
+            <ExerciseCard
+              exercise={shownExercise}
+              workoutRepository={workoutRepository}
+              refreshKey={historyVersion}
+              onSelectSubstitute={handleSearchSelect}
+            />
+            <WorkoutLogger
+              key={shownExercise.id}
+              exercise={shownExercise}
+              onLogWorkout={handleLogWorkout}
+              onStartLiveWorkout={handleStartLiveWorkout}
+              workoutRepository={workoutRepository}
+              isLogging={isLogging}
+              defaultExpanded
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Show custom exercise editor
+  if (currentView === 'custom') {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">My Exercises</h1>
+            <div className="w-[120px]" />
+          </div>
+          <CustomExerciseManager googleSheetsService={googleSheetsService} />
+        </div>
+      </div>
+    );
+  }
+
+  // Show program builder view
+  if (currentView === 'programs') {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Training Programs</h1>
+            <div className="w-[120px]" />
+          </div>
+          <ProgramManager />
+        </div>
+      </div>
+    );
+  }
+
+  // Show today's program workout
+  if (currentView === 'today' && scheduledDay) {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <div className="text-center">
+              <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+                {scheduledDay.day.name}
+              </h1>
+              <p className="text-muted-foreground">{scheduledDay.program.name}</p>
+            </div>
+            <div className="w-[120px] flex justify-end">
+              <UnitToggle />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <SessionBanner />
+          </div>
+
+          <ProgramDayWorkout
+            key={scheduledDay.day.id}
+            scheduled={scheduledDay}
+            workoutRepository={workoutRepository}
+            onLogWorkout={handleLogWorkout}
+            onStartLiveWorkout={handleStartLiveWorkout}
+            onCompleteDay={handleCompleteProgramDay}
+            isLogging={isLogging}
+            refreshKey={historyVersion}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  // Show workout generator
+  if (currentView === 'generate') {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Generate Workout</h1>
+            <div className="w-[120px]" />
+          </div>
+          <WorkoutGenerator workoutRepository={workoutRepository} onStart={handleStartGenerated} />
+        </div>
+      </div>
+    );
+  }
+
+  // Show a generated workout being done, run like a one-off program day
+  if (currentView === 'generated' && generatedProgram) {
+    const generatedDay = getScheduledDay([generatedProgram], {
+      programId: generatedProgram.id,
+      startedAt: generatedProgram.createdAt,
+      completedDayIds: [],
+    });
+
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              {generatedProgram.name}
+            </h1>
+            <div className="w-[120px] flex justify-end">
+              <UnitToggle />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <SessionBanner />
+          </div>
+
+          <ProgramDayWorkout
+            scheduled={generatedDay}
+            workoutRepository={workoutRepository}
+            onLogWorkout={handleLogWorkout}
+            onStartLiveWorkout={handleStartLiveWorkout}
+            onCompleteDay={handleCompleteGenerated}
+            isLogging={isLogging}
+            refreshKey={historyVersion}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  // Show training calendar view
+  if (currentView === 'calendar') {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Training Calendar</h1>
+            <div className="w-[120px] flex justify-end">
+              <UnitToggle />
+            </div>
+          </div>
+          <TrainingCalendar key={historyVersion} workoutRepository={workoutRepository} />
+        </div>
+      </div>
+    );
+  }
+
+  // Show personal records view
+  if (currentView === 'records') {
+    return (
+      <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
+        <div className="max-w-5xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentView('home')}
+              className="text-foreground hover:text-primary"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Home
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Personal Records</h1>
+            <div className="w-[120px] flex justify-end">
+              <UnitToggle />
+            </div>
+          </div>
+          <PersonalRecordsBoard key={historyVersion} workoutRepository={workoutRepository} />
+        </div>
+      </div>
+    );
+  }
+
   // Show progress view
   if (currentView === 'progress') {
     return (
@@ -133,12 +577,29 @@ const FitnessApp = () => {
               Back to Home
             </Button>
             <h1 className="text-2xl font-bold text-foreground">Progress Tracking</h1>
-            <div className="w-[120px]" />
+            <div className="w-[120px] flex justify-end">
+              <UnitToggle />
+            </div>
           </div>
+          {googleSheetsService && (
+            <div className="mb-6">
+              <SyncPanel
+                googleSheetsService={googleSheetsService}
+                onSynced={() => setHistoryVersion(version => version + 1)}
+              />
+            </div>
+          )}
           <ProgressTracker 
-            googleSheetsService={googleSheetsService}
+            key={historyVersion}
+            workoutRepository={workoutRepository}
             selectedMuscleGroup={selectedBodyPart || undefined}
           />
+          <div className="mt-8">
+            <SessionChart key={historyVersion} workoutRepository={workoutRepository} />
+          </div>
+          <div className="mt-8">
+            <MuscleVolumeTracker key={historyVersion} workoutRepository={workoutRepository} />
+          </div>
         </div>
       </div>
     );
@@ -160,6 +621,12 @@ const FitnessApp = () => {
 
   // Show exercise list if we have selected body part and difficulty
   if (selectedBodyPart && selectedDifficulty && currentExercises.length > 0) {
+    const visibleExercises = currentExercises
+      .filter(exercise => isExerciseAvailable(exercise, availableEquipment))
+      .map(planned => ({ planned, exercise: swappedExercise(planned) }));
+    const hiddenExercises = currentExercises.filter(exercise => !isExerciseAvailable(exercise, availableEquipment));
+    const substituteCandidates = getAllExercises().filter(exercise => isExerciseAvailable(exercise, availableEquipment));
+
     return (
       <div className="min-h-screen bg-gradient-dark p-4 sm:p-6">
         <div className="max-w-4xl mx-auto">
@@ -184,14 +651,57 @@ const FitnessApp = () => {
             <div className="w-[120px]" /> {/* Spacer for centering */}
           </div>
 
+          <div className="mb-6 space-y-4">
+            <EquipmentProfilePicker />
+            <SessionBanner />
+          </div>
+
+          {/* Exercises the active profile can't do, with stand-ins */}
+          {hiddenExercises.length > 0 && (
+            <div className="mb-6 p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 space-y-3">
+              <p className="text-sm text-yellow-400">
+                {hiddenExercises.length} exercise{hiddenExercises.length === 1 ? '' : 's'} hidden: not possible at {getActiveProfile(equipmentState)?.name}
+              </p>
+              {hiddenExercises.map(exercise => {
+                const substitutes = findSubstitutes(exercise, substituteCandidates);
+                return (
+                  <div key={exercise.id} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-muted-foreground line-through">{exercise.name}</span>
+                    {substitutes.length > 0 ? substitutes.map(substitute => (
+                      <Button
+                        key={substitute.id}
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => handleSearchSelect(substitute)}
+                      >
+                        {substitute.name}
+                      </Button>
+                    )) : (
+                      <span className="text-xs text-muted-foreground">no substitute available</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Exercise Grid */}
           <div className="grid gap-6 sm:grid-cols-1 lg:grid-cols-2">
-            {currentExercises.map((exercise) => (
-              <div key={exercise.id} className="space-y-4">
-                <ExerciseCard exercise={exercise} />
+            {visibleExercises.map(({ planned, exercise }) => (
+              <div key={planned.id} className="space-y-4">
+                <ExerciseCard
+                  exercise={exercise}
+                  workoutRepository={workoutRepository}
+                  refreshKey={historyVersion}
+                  onSelectSubstitute={handleSearchSelect}
+                />
                 <WorkoutLogger 
+                  key={exercise.id}
                   exercise={exercise} 
                   onLogWorkout={handleLogWorkout}
+                  onStartLiveWorkout={handleStartLiveWorkout}
+                  workoutRepository={workoutRepository}
                   isLogging={isLogging}
                 />
               </div>
@@ -227,6 +737,7 @@ const FitnessApp = () => {
             
             {/* Action Buttons */}
             <div className="flex flex-wrap gap-4 justify-center">
+              <ExerciseSearch onSelectExercise={handleSearchSelect} />
               <Button 
                 onClick={() => setCurrentView('progress')}
                 variant="outline"
@@ -235,6 +746,54 @@ const FitnessApp = () => {
                 <TrendingUp className="w-4 h-4 mr-2" />
                 View Progress
               </Button>
+              <Button 
+                onClick={() => setCurrentView('history')}
+                variant="outline"
+                className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
+              >
+                <History className="w-4 h-4 mr-2" />
+                Workout History
+              </Button>
+              <Button 
+                onClick={() => setCurrentView('calendar')}
+                variant="outline"
+                className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
+              >
+                <CalendarCheck className="w-4 h-4 mr-2" />
+                Training Calendar
+              </Button>
+              <Button 
+                onClick={() => setCurrentView('records')}
+                variant="outline"
+                className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
+              >
+                <Trophy className="w-4 h-4 mr-2" />
+                Personal Records
+              </Button>
+              <Button 
+                onClick={() => setCurrentView('generate')}
+                variant="outline"
+                className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
+              >
+                <Sparkles className="w-4 h-4 mr-2" />
+                Generate Workout
+              </Button>
+              <Button 
+                onClick={() => setCurrentView('programs')}
+                variant="outline"
+                className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
+              >
+                <CalendarDays className="w-4 h-4 mr-2" />
+                Programs
+              </Button>
+              <Button 
+                onClick={() => setCurrentView('custom')}
+                variant="outline"
+                className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
+              >
+                <Wrench className="w-4 h-4 mr-2" />
+                My Exercises
+              </Button>
               <Button 
                 onClick={() => setCurrentView('setup')}
                 variant="outline"
@@ -243,7 +802,37 @@ const FitnessApp = () => {
                 <Settings className="w-4 h-4 mr-2" />
                 Google Sheets Setup
               </Button>
+              <UnitToggle />
+            </div>
+
+            <div className="mt-6">
+              <EquipmentProfilePicker />
+            </div>
+
+            <div className="max-w-xl mx-auto mt-6 space-y-4">
+              <TodayWorkout
+                onStart={handleStartProgramDay}
+                onManagePrograms={() => setCurrentView('programs')}
+              />
+              <SessionBanner />
             </div>
+
+            {googleSheetsService && pendingSyncs.length > 0 && (
+              <div className="flex items-center justify-center gap-3 mt-6 text-sm text-yellow-400">
+                <CloudUpload className="w-4 h-4" />
+                <span>
+                  {pendingSyncs.length} workout{pendingSyncs.length === 1 ? '' : 's'} waiting to sync to Google Sheets
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => syncOutbox.flush(googleSheetsService, { force: true })}
+                  className="text-yellow-400 hover:text-yellow-300"
+                >
+                  Sync now
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
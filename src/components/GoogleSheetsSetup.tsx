@@ -10,6 +10,7 @@ import { validateGoogleSheetsConfig, extractSpreadsheetId, type GoogleSheetsConf
 import { useToast } from '@/hooks/use-toast';
 import { apiLogger } from '@/lib/apiLogger';
 import { GoogleSheetsService } from '@/services/googleSheets';
+import { SHEET_COLUMNS, SHEET_SCHEMA_VERSION } from '@/services/sheetSchema';
 
 interface GoogleSheetsSetupProps {
   onConfigSave: (config: GoogleSheetsConfig) => void;
@@ -126,6 +127,24 @@ const GoogleSheetsSetup = ({ onConfigSave, initialConfig }: GoogleSheetsSetupPro
     }
   };
 
+  const handleMigrateSchema = async () => {
+    if (!googleSheetsService) return;
+
+    try {
+      await googleSheetsService.migrateSchema();
+      toast({
+        title: "Sheet Up To Date",
+        description: `Headers match schema v${SHEET_SCHEMA_VERSION}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Upgrade Failed",
+        description: error instanceof Error ? error.message : "Could not upgrade sheet headers",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleUseApiKeyOnly = () => {
     setAuthMethod('apikey');
     toast({
@@ -399,10 +418,22 @@ const GoogleSheetsSetup = ({ onConfigSave, initialConfig }: GoogleSheetsSetupPro
 
         {/* Sample Sheet Structure */}
         <div className="space-y-2">
-          <Label>Required Headers (Row 1 of your sheet)</Label>
+          <div className="flex items-center justify-between">
+            <Label>Required Headers (Row 1 of your sheet, schema v{SHEET_SCHEMA_VERSION})</Label>
+            {isSignedIn && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleMigrateSchema}
+                className="text-primary hover:text-primary/80"
+              >
+                Upgrade Sheet
+              </Button>
+            )}
+          </div>
           <Textarea
             readOnly
-            value="Date	Exercise Name	Muscle Group	Set Number	Reps	Weight (kg)	Difficulty Level	Notes"
+            value={SHEET_COLUMNS.map(column => column.header).join('\t')}
             className="bg-muted/50 text-sm font-mono"
             rows={2}
           />
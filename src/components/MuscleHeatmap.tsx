@@ -0,0 +1,90 @@
+import type { MuscleGroup } from '@/data/exerciseTaxonomy';
+import { VOLUME_STATUS_LABELS, getVolumeStatus, type VolumeStatus, type VolumeTarget } from '@/lib/muscleVolume';
+
+interface MuscleHeatmapProps {
+  sets: Record<MuscleGroup, number>;
+  targets: Record<MuscleGroup, VolumeTarget>;
+}
+
+const VOLUME_STATUS_COLORS: Record<VolumeStatus, string> = {
+  none: 'hsl(var(--muted))',
+  under: 'hsl(45 90% 55%)',
+  within: 'hsl(142 70% 45%)',
+  over: 'hsl(0 80% 55%)',
+};
+
+type Shape =
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number };
+
+// Front and back outlines drawn from simple shapes, one figure per 120 × 240 box
+const FRONT: [MuscleGroup, Shape][] = [
+  ['shoulders', { kind: 'ellipse', cx: 33, cy: 56, rx: 11, ry: 8 }],
+  ['shoulders', { kind: 'ellipse', cx: 87, cy: 56, rx: 11, ry: 8 }],
+  ['chest', { kind: 'rect', x: 42, y: 50, width: 36, height: 26 }],
+  ['biceps', { kind: 'ellipse', cx: 27, cy: 86, rx: 7, ry: 17 }],
+  ['biceps', { kind: 'ellipse', cx: 93, cy: 86, rx: 7, ry: 17 }],
+  ['abs', { kind: 'rect', x: 46, y: 80, width: 28, height: 44 }],
+  ['legs', { kind: 'rect', x: 42, y: 130, width: 16, height: 100 }],
+  ['legs', { kind: 'rect', x: 62, y: 130, width: 16, height: 100 }],
+];
+
+const BACK: [MuscleGroup, Shape][] = [
+  ['shoulders', { kind: 'ellipse', cx: 33, cy: 56, rx: 11, ry: 8 }],
+  ['shoulders', { kind: 'ellipse', cx: 87, cy: 56, rx: 11, ry: 8 }],
+  ['back', { kind: 'rect', x: 42, y: 50, width: 36, height: 74 }],
+  ['triceps', { kind: 'ellipse', cx: 27, cy: 86, rx: 7, ry: 17 }],
+  ['triceps', { kind: 'ellipse', cx: 93, cy: 86, rx: 7, ry: 17 }],
+  ['legs', { kind: 'rect', x: 42, y: 130, width: 16, height: 100 }],
+  ['legs', { kind: 'rect', x: 62, y: 130, width: 16, height: 100 }],
+];
+
+/**
+ * Front and back body outlines with each muscle group coloured by where its
+ * weekly hard sets fall against the target range.
+ */
+const MuscleHeatmap = ({ sets, targets }: MuscleHeatmapProps) => {
+  const renderFigure = (label: string, shapes: [MuscleGroup, Shape][]) => (
+    <figure className="flex flex-col items-center gap-2">
+      <svg viewBox="0 0 120 240" className="h-64 w-auto" role="img" aria-label={`${label} muscle heatmap`}>
+        <circle cx={60} cy={24} r={14} fill="hsl(var(--muted))" />
+        <rect x={52} y={37} width={16} height={8} fill="hsl(var(--muted))" />
+        {shapes.map(([group, shape], index) => {
+          const status = getVolumeStatus(sets[group], targets[group]);
+          const props = {
+            fill: VOLUME_STATUS_COLORS[status],
+            stroke: 'hsl(var(--border))',
+            strokeWidth: 1,
+          };
+          const title = <title>{`${group}: ${Math.round(sets[group] * 10) / 10} sets (${VOLUME_STATUS_LABELS[status].toLowerCase()})`}</title>;
+
+          return shape.kind === 'ellipse' ? (
+            <ellipse key={index} cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} {...props}>{title}</ellipse>
+          ) : (
+            <rect key={index} x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={6} {...props}>{title}</rect>
+          );
+        })}
+      </svg>
+      <figcaption className="text-xs text-muted-foreground">{label}</figcaption>
+    </figure>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center gap-8">
+        {renderFigure('Front', FRONT)}
+        {renderFigure('Back', BACK)}
+      </div>
+      <div className="flex flex-wrap justify-center gap-4 text-xs text-muted-foreground">
+        {(Object.keys(VOLUME_STATUS_LABELS) as VolumeStatus[]).map(status => (
+          <span key={status} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: VOLUME_STATUS_COLORS[status] }} />
+            {VOLUME_STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MuscleHeatmap;
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Activity, ChevronLeft, ChevronRight, Target } from 'lucide-react';
+import { format, addWeeks, isSameWeek } from 'date-fns';
+import { WorkoutLog } from '@/data/exercises';
+import { MUSCLE_GROUPS, MUSCLE_GROUP_COLORS, type MuscleGroup } from '@/data/exerciseTaxonomy';
+import {
+  DEFAULT_VOLUME_TARGETS,
+  VOLUME_STATUS_LABELS,
+  getVolumeStatus,
+  getWeeklyMuscleVolume,
+  volumeTargetsPreference,
+  type VolumeStatus,
+  type VolumeTarget,
+} from '@/lib/muscleVolume';
+import { WEEK_OPTIONS } from '@/lib/timeRanges';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+import { usePreference } from '@/hooks/use-preference';
+import MuscleHeatmap from './MuscleHeatmap';
+
+interface MuscleVolumeTrackerProps {
+  workoutRepository: WorkoutRepository;
+}
+
+type Metric = 'sets' | 'tonnage';
+
+const WEEKS_CHARTED = 8;
+
+const STATUS_BADGE_CLASSES: Record<VolumeStatus, string> = {
+  none: 'bg-muted text-muted-foreground border-border',
+  under: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  within: 'bg-green-500/20 text-green-400 border-green-500/30',
+  over: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+const roundSets = (sets: number) => Math.round(sets * 10) / 10;
+
+/**
+ * Hard sets and tonnage per muscle group for each calendar week, checked
+ * against target set ranges so undertrained groups stand out.
+ */
+const MuscleVolumeTracker = ({ workoutRepository }: MuscleVolumeTrackerProps) => {
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([]);
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [metric, setMetric] = useState<Metric>('sets');
+  const [targets, setTargets] = usePreference(volumeTargetsPreference);
+  const [draftTargets, setDraftTargets] = useState<Record<MuscleGroup, VolumeTarget> | null>(null);
+  const [unit] = useWeightUnit();
+
+  useEffect(() => {
+    workoutRepository.list()
+      .then(setWorkoutLogs)
+      .catch((error) => {
+        console.error('Error loading workout data:', error);
+        setWorkoutLogs([]);
+      });
+  }, [workoutRepository]);
+
+  const weekEnd = addWeeks(new Date(), weekOffset);
+  const weeks = getWeeklyMuscleVolume(workoutLogs, unit, WEEKS_CHARTED, weekEnd);
+  const selectedWeek = weeks[weeks.length - 1];
+
+  const chartData = weeks.map(week => ({
+    week: format(week.weekStart, 'MMM d'),
+    ...Object.fromEntries(MUSCLE_GROUPS.map(group => [
+      group,
+      metric === 'sets' ? roundSets(week.sets[group]) : Math.round(week.tonnage[group]),
+    ])),
+  }));
+
+  const updateDraft = (group: MuscleGroup, bound: keyof VolumeTarget, value: string) => {
+    setDraftTargets(current => ({
+      ...current,
+      [group]: { ...current[group], [bound]: Math.max(0, parseInt(value) || 0) },
+    }));
+  };
+
+  const handleSaveTargets = () => {
+    // A minimum above the maximum would make every count out of range
+    setTargets(Object.fromEntries(MUSCLE_GROUPS.map(group => {
+      const { min, max } = draftTargets[group];
+      return [group, { min: Math.min(min, max), max: Math.max(min, max) }];
+    })) as Record<MuscleGroup, VolumeTarget>);
+    setDraftTargets(null);
+  };
+
+  return (
+    <Card className="bg-glass border-glass backdrop-blur-sm p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Activity className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Weekly Muscle Volume</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setWeekOffset(offset => offset - 1)} aria-label="Previous week">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground min-w-[120px] text-center">
+            {isSameWeek(selectedWeek.weekStart, new Date(), WEEK_OPTIONS)
+              ? 'This week'
+              : `Week of ${format(selectedWeek.weekStart, 'MMM d, yyyy')}`}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setWeekOffset(offset => offset + 1)}
+            disabled={weekOffset >= 0}
+            aria-label="Next week"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <ToggleGroup
+            type="single"
+            value={metric}
+            onValueChange={(value: Metric) => value && setMetric(value)}
+            variant="outline"
+            size="sm"
+          >
+            <ToggleGroupItem value="sets">Sets</ToggleGroupItem>
+            <ToggleGroupItem value="tonnage">Tonnage</ToggleGroupItem>
+          </ToggleGroup>
+          <Button variant="outline" size="sm" onClick={() => setDraftTargets(targets)}>
+            <Target className="w-4 h-4 mr-2" />
+            Targets
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <MuscleHeatmap sets={selectedWeek.sets} targets={targets} />
+
+        <ul className="space-y-2">
+          {MUSCLE_GROUPS.map(group => {
+            const status = getVolumeStatus(selectedWeek.sets[group], targets[group]);
+            return (
+              <li key={group} className="flex items-center justify-between gap-3 p-2 rounded-md border border-border bg-muted/30">
+                <div>
+                  <div className="font-medium text-foreground">{capitalize(group)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {roundSets(selectedWeek.sets[group])} sets of {targets[group].min}-{targets[group].max}
+                    {' • '}{Math.round(selectedWeek.tonnage[group]).toLocaleString()}{unit}
+                  </div>
+                </div>
+                <Badge className={STATUS_BADGE_CLASSES[status]}>{VOLUME_STATUS_LABELS[status]}</Badge>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="week" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+            />
+            <Legend />
+            {MUSCLE_GROUPS.map(group => (
+              <Bar
+                key={group}
+                dataKey={group}
+                stackId="volume"
+                fill={MUSCLE_GROUP_COLORS[group]}
+                name={metric === 'sets' ? `${capitalize(group)} (sets)` : `${capitalize(group)} (${unit})`}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <Dialog open={!!draftTargets} onOpenChange={(open) => !open && setDraftTargets(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Weekly Set Targets</DialogTitle>
+          </DialogHeader>
+          {draftTargets && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+                <span>Muscle group</span>
+                <span>Min sets</span>
+                <span>Max sets</span>
+              </div>
+              {MUSCLE_GROUPS.map(group => (
+                <div key={group} className="grid grid-cols-3 gap-2 items-center">
+                  <span className="text-sm text-foreground">{capitalize(group)}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={draftTargets[group].min}
+                    onChange={(e) => updateDraft(group, 'min', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    value={draftTargets[group].max}
+                    onChange={(e) => updateDraft(group, 'max', e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraftTargets(DEFAULT_VOLUME_TARGETS)}>Reset to Defaults</Button>
+            <Button onClick={handleSaveTargets}>Save Targets</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default MuscleVolumeTracker;
@@ -0,0 +1,186 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { Gauge } from 'lucide-react';
+import { addDays, format, parseISO } from 'date-fns';
+import { WorkoutLog } from '@/data/exercises';
+import { ONE_REP_MAX_FORMULAS, estimateOneRepMax, oneRepMaxFormulaPreference, type OneRepMaxFormula } from '@/lib/oneRepMax';
+import {
+  getStrengthBands,
+  getStrengthLevel,
+  hasStrengthStandard,
+  strengthProfilePreference,
+  type Sex,
+  type StrengthLevel,
+} from '@/lib/strengthStandards';
+import { formatBucket } from '@/lib/timeRanges';
+import { convertWeight, formatWeight, setWeightIn } from '@/lib/units';
+import { usePreference } from '@/hooks/use-preference';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+
+interface OneRepMaxChartProps {
+  logs: WorkoutLog[];
+  exerciseId: string | null;
+}
+
+const bandColors: Record<StrengthLevel, string> = {
+  beginner: 'hsl(0 70% 50%)',
+  novice: 'hsl(30 80% 50%)',
+  intermediate: 'hsl(50 80% 50%)',
+  advanced: 'hsl(140 60% 45%)',
+  elite: 'hsl(200 80% 55%)',
+};
+
+const OneRepMaxChart = ({ logs, exerciseId }: OneRepMaxChartProps) => {
+  const [formula, setFormula] = usePreference(oneRepMaxFormulaPreference);
+  const [profile, setProfile] = usePreference(strengthProfilePreference);
+  const [unit] = useWeightUnit();
+
+  const estimates = logs.flatMap(log => log.sets
+    .filter(set => set.type !== 'warmup' && set.weight > 0)
+    .map(set => ({
+      log,
+      set,
+      oneRepMax: Math.round(estimateOneRepMax(setWeightIn(set, unit), set.reps, formula) * 10) / 10,
+    }))
+  );
+
+  // Best estimate per day, oldest first
+  const bestByDay = estimates.reduce((acc, estimate) => {
+    const day = format(parseISO(estimate.log.date), 'yyyy-MM-dd');
+    acc[day] = Math.max(acc[day] || 0, estimate.oneRepMax);
+    return acc;
+  }, {} as Record<string, number>);
+  const days = Object.keys(bestByDay).sort();
+  // Labels carry the year when the plotted days span more than one
+  const plotted = days.length > 0 ? { start: parseISO(days[0]), end: addDays(parseISO(days[days.length - 1]), 1) } : null;
+  const chartData = days.map(day => ({ date: formatBucket(parseISO(day), 'day', plotted), oneRepMax: bestByDay[day] }));
+
+  const best = estimates.reduce<typeof estimates[number] | null>((a, b) => (!a || b.oneRepMax > a.oneRepMax ? b : a), null);
+  const bands = exerciseId ? getStrengthBands(exerciseId, profile, unit) : [];
+  const level = best ? getStrengthLevel(best.oneRepMax, bands) : null;
+  const chartMax = Math.max(best?.oneRepMax || 0, ...bands.map(band => band.to || band.from)) * 1.1;
+
+  return (
+    <Card className="bg-glass border-glass backdrop-blur-sm p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Estimated 1RM</h3>
+        </div>
+        <Select value={formula} onValueChange={(value: OneRepMaxFormula) => setFormula(value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ONE_REP_MAX_FORMULAS) as OneRepMaxFormula[]).map(key => (
+              <SelectItem key={key} value={key}>{ONE_REP_MAX_FORMULAS[key].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!exerciseId ? (
+        <p className="text-sm text-muted-foreground">
+          Pick an exercise above to see its estimated one-rep max trend.
+        </p>
+      ) : !best ? (
+        <p className="text-sm text-muted-foreground">
+          No weighted sets in this range to estimate a one-rep max from.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="text-3xl font-bold text-primary">{formatWeight(best.oneRepMax, unit)}</div>
+            <div className="text-sm text-muted-foreground">
+              best estimate, from {best.set.reps} × {formatWeight(setWeightIn(best.set, unit), unit)} on {format(parseISO(best.log.date), 'MMM d, yyyy')}
+            </div>
+            {level && (
+              <Badge style={{ backgroundColor: bandColors[level.level] }} className="text-background">
+                {level.label}
+              </Badge>
+            )}
+          </div>
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} domain={[0, Math.ceil(chartMax)]} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                />
+                {bands.map(band => (
+                  <ReferenceArea
+                    key={band.level}
+                    y1={band.from}
+                    y2={band.to ?? Math.ceil(chartMax)}
+                    fill={bandColors[band.level]}
+                    fillOpacity={0.08}
+                    label={{ value: band.label, position: 'insideRight', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                  />
+                ))}
+                <Line
+                  type="monotone"
+                  dataKey="oneRepMax"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={3}
+                  name={`Best e1RM (${unit})`}
+                  dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+
+      {exerciseId && best && !hasStrengthStandard(exerciseId) && (
+        <p className="text-xs text-muted-foreground pt-4 border-t border-border">
+          Strength level bands aren't available for this exercise. Standards only cover the loaded chest presses in the catalog.
+        </p>
+      )}
+
+      {exerciseId && hasStrengthStandard(exerciseId) && (
+        <div className="flex flex-wrap items-end gap-4 pt-4 border-t border-border">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Bodyweight ({unit})</Label>
+            <Input
+              type="number"
+              value={profile.bodyweight ? Math.round(convertWeight(profile.bodyweight, profile.unit, unit) * 10) / 10 : ''}
+              onChange={(e) => setProfile({ ...profile, bodyweight: Math.max(0, parseFloat(e.target.value) || 0), unit })}
+              className="bg-background w-28"
+              min="0"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Sex</Label>
+            <Select value={profile.sex} onValueChange={(value: Sex) => setProfile({ ...profile, sex: value })}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="male">Male</SelectItem>
+                <SelectItem value="female">Female</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground flex-1 min-w-[200px]">
+            {profile.bodyweight > 0
+              ? 'Bands show typical one-rep maxes for your bodyweight and sex.'
+              : 'Enter your bodyweight to see strength level bands.'}
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default OneRepMaxChart;
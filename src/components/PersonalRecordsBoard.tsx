@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Medal, Trophy } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { WorkoutLog } from '@/data/exercises';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import {
+  formatRecordValue,
+  getCurrentRecords,
+  getRecordHistory,
+  PERSONAL_RECORD_LABELS,
+  type PersonalRecord,
+} from '@/lib/personalRecords';
+import { oneRepMaxFormulaPreference } from '@/lib/oneRepMax';
+import type { WeightUnit } from '@/lib/units';
+import { usePreference } from '@/hooks/use-preference';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+
+interface PersonalRecordsBoardProps {
+  workoutRepository: WorkoutRepository;
+}
+
+// Rep records shown per exercise, heaviest weights first
+const MAX_REP_RECORDS = 3;
+const MAX_RECENT_RECORDS = 15;
+
+const RecordCell = ({ record, unit }: { record?: PersonalRecord; unit: WeightUnit }) => (
+  <TableCell>
+    {record ? (
+      <div>
+        <div className="font-medium text-foreground">{formatRecordValue(record, unit)}</div>
+        <div className="text-xs text-muted-foreground">{format(parseISO(record.date), 'MMM dd, yyyy')}</div>
+      </div>
+    ) : (
+      <span className="text-muted-foreground">-</span>
+    )}
+  </TableCell>
+);
+
+const PersonalRecordsBoard = ({ workoutRepository }: PersonalRecordsBoardProps) => {
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([]);
+  const [formula] = usePreference(oneRepMaxFormulaPreference);
+  const [unit] = useWeightUnit();
+
+  useEffect(() => {
+    workoutRepository.list()
+      .then(setWorkoutLogs)
+      .catch((error) => {
+        console.error('Error loading personal records:', error);
+        setWorkoutLogs([]);
+      });
+  }, [workoutRepository]);
+
+  const currentRecords = getCurrentRecords(workoutLogs, formula);
+  const recentRecords = getRecordHistory(workoutLogs, formula).reverse().slice(0, MAX_RECENT_RECORDS);
+
+  const recordsByExercise = currentRecords.reduce((acc, record) => {
+    (acc[record.exerciseId] = acc[record.exerciseId] || []).push(record);
+    return acc;
+  }, {} as Record<string, PersonalRecord[]>);
+
+  if (currentRecords.length === 0) {
+    return (
+      <Card className="bg-glass border-glass backdrop-blur-sm p-8 text-center">
+        <Trophy className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-foreground mb-2">
+          No Records Yet
+        </h3>
+        <p className="text-muted-foreground">
+          Log a few workouts and your personal bests will show up here.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-glass border-glass backdrop-blur-sm p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Trophy className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Personal Bests</h3>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Exercise</TableHead>
+              <TableHead>{PERSONAL_RECORD_LABELS.weight}</TableHead>
+              <TableHead>{PERSONAL_RECORD_LABELS.e1rm}</TableHead>
+              <TableHead>{PERSONAL_RECORD_LABELS.volume}</TableHead>
+              <TableHead>{PERSONAL_RECORD_LABELS.repsAtWeight}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Object.values(recordsByExercise)
+              .sort((a, b) => a[0].exerciseName.localeCompare(b[0].exerciseName))
+              .map(records => {
+                const byType = (type: PersonalRecord['type']) => records.find(record => record.type === type);
+                const repRecords = records
+                  .filter(record => record.type === 'repsAtWeight')
+                  .sort((a, b) => b.weight - a.weight)
+                  .slice(0, MAX_REP_RECORDS);
+
+                return (
+                  <TableRow key={records[0].exerciseId}>
+                    <TableCell className="font-medium">{records[0].exerciseName}</TableCell>
+                    <RecordCell record={byType('weight')} unit={unit} />
+                    <RecordCell record={byType('e1rm')} unit={unit} />
+                    <RecordCell record={byType('volume')} unit={unit} />
+                    <TableCell>
+                      <div className="space-y-1">
+                        {repRecords.map(record => (
+                          <div key={record.weight} className="text-sm">
+                            {formatRecordValue(record, unit)}
+                            <span className="text-xs text-muted-foreground"> • {format(parseISO(record.date), 'MMM dd')}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {recentRecords.length > 0 && (
+        <Card className="bg-glass border-glass backdrop-blur-sm p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Medal className="w-5 h-5 text-primary" />
+            <h3 className="text-lg font-semibold text-foreground">Recent PRs</h3>
+          </div>
+          <ul className="space-y-2">
+            {recentRecords.map((record, index) => (
+              <li
+                key={`${record.logId}-${record.type}-${index}`}
+                className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/30"
+              >
+                <div>
+                  <div className="text-sm font-medium text-foreground">{record.exerciseName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(parseISO(record.date), 'MMM dd, yyyy')} • {PERSONAL_RECORD_LABELS[record.type]}
+                  </div>
+                </div>
+                <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                  {formatRecordValue(record, unit)}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PersonalRecordsBoard;
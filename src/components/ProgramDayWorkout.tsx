@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle } from 'lucide-react';
+import { Exercise, WorkoutLog } from '@/data/exercises';
+import { oneRepMaxFormulaPreference } from '@/lib/oneRepMax';
+import type { PersonalRecord } from '@/lib/personalRecords';
+import { parsePrescription } from '@/lib/prescription';
+import { setWeightIn } from '@/lib/units';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+import { useWorkoutSessions } from '@/hooks/use-workout-sessions';
+import { getActiveSwaps, resolveSwap } from '@/services/workoutSessions';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import {
+  toProgramExercise,
+  weightForIntensity,
+  type ProgramExercise,
+  type ScheduledDay,
+} from '@/services/trainingPrograms';
+import ExerciseCard from './ExerciseCard';
+import WorkoutLogger, { type WorkoutPlan } from './WorkoutLogger';
+
+interface ProgramDayWorkoutProps {
+  scheduled: ScheduledDay;
+  workoutRepository: WorkoutRepository;
+  onLogWorkout: (workoutLog: WorkoutLog) => Promise<PersonalRecord[] | null>;
+  onStartLiveWorkout: (exercise: Exercise) => void;
+  onCompleteDay: () => void;
+  isLogging: boolean;
+  refreshKey?: unknown;
+}
+
+const ProgramDayWorkout = ({
+  scheduled,
+  workoutRepository,
+  onLogWorkout,
+  onStartLiveWorkout,
+  onCompleteDay,
+  isLogging,
+  refreshKey,
+}: ProgramDayWorkoutProps) => {
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[] | null>(null);
+  const [unit] = useWeightUnit();
+  const { week, day, weekNumber } = scheduled;
+  const swaps = getActiveSwaps(useWorkoutSessions());
+
+  useEffect(() => {
+    workoutRepository.list()
+      .then(setWorkoutLogs)
+      .catch((error) => {
+        console.error('Error loading workout history:', error);
+        setWorkoutLogs([]);
+      });
+  }, [workoutRepository, refreshKey]);
+
+  const loggedToday = new Set((workoutLogs || [])
+    .filter(log => new Date(log.date).toDateString() === new Date().toDateString())
+    .map(log => log.exerciseId));
+
+  // Intensity picks the weight from the estimated max, otherwise start from the last top set
+  const planFor = (entry: ProgramExercise, exercise: Exercise): WorkoutPlan => {
+    const history = (workoutLogs || []).filter(log => log.exerciseId === exercise.id);
+    const lastLog = history.reduce<WorkoutLog | null>((a, b) => (!a || new Date(b.date) > new Date(a.date) ? b : a), null);
+    const lastTopWeight = Math.max(0, ...(lastLog?.sets || [])
+      .filter(set => set.type !== 'warmup')
+      .map(set => setWeightIn(set, unit)));
+
+    return {
+      sets: entry.sets,
+      reps: parsePrescription(exercise).minReps,
+      weight: entry.intensity
+        ? weightForIntensity(entry.intensity, history, unit, oneRepMaxFormulaPreference.get())
+        : lastTopWeight,
+    };
+  };
+
+  const entries = day.exercises
+    // Exercises swapped this session keep the program's prescription
+    .map(entry => ({ entry, exercise: toProgramExercise({ ...entry, exerciseId: resolveSwap(entry.exerciseId, swaps) }) }))
+    .filter(({ exercise }) => exercise);
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-glass border-glass backdrop-blur-sm p-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          Week {weekNumber} • {loggedToday.size > 0
+            ? `${entries.filter(({ exercise }) => loggedToday.has(exercise.id)).length} of ${entries.length} exercises logged today`
+            : `${entries.length} exercises`}
+          {week.deload && <Badge variant="secondary">Deload</Badge>}
+        </div>
+        <Button onClick={onCompleteDay}>
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Complete Day
+        </Button>
+      </Card>
+
+      {workoutLogs && (
+        <div className="grid gap-6 sm:grid-cols-1 lg:grid-cols-2">
+          {entries.map(({ entry, exercise }) => (
+            <div key={entry.id} className="space-y-4">
+              <ExerciseCard exercise={exercise} workoutRepository={workoutRepository} refreshKey={refreshKey} />
+              {entry.intensity && (
+                <p className="text-sm text-muted-foreground px-1">
+                  Programmed at {entry.intensity}% of your estimated one-rep max
+                </p>
+              )}
+              <WorkoutLogger
+                key={exercise.id}
+                exercise={exercise}
+                onLogWorkout={onLogWorkout}
+                onStartLiveWorkout={onStartLiveWorkout}
+                workoutRepository={workoutRepository}
+                isLogging={isLogging}
+                plan={planFor(entry, exercise)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgramDayWorkout;
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Plus, Save, Trash2, TrendingDown } from 'lucide-react';
+import { Exercise, getAllExercises } from '@/data/exercises';
+import { createId } from '@/lib/ids';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomExercises } from '@/hooks/use-custom-exercises';
+import { useEquipmentProfiles } from '@/hooks/use-equipment-profiles';
+import { getAvailableEquipment, isExerciseAvailable } from '@/services/equipmentProfiles';
+import {
+  copyProgramWeek,
+  createProgramDay,
+  createProgramWeek,
+  type ProgramDay,
+  type ProgramExercise,
+  type ProgramWeek,
+  type TrainingProgram,
+} from '@/services/trainingPrograms';
+
+interface ProgramEditorProps {
+  program: TrainingProgram;
+  onSave: (program: TrainingProgram) => void;
+  onCancel: () => void;
+}
+
+const ProgramEditor = ({ program, onSave, onCancel }: ProgramEditorProps) => {
+  const [draft, setDraft] = useState<TrainingProgram>(program);
+  const { toast } = useToast();
+  // Re-renders when custom exercises change so the picker stays current
+  useCustomExercises();
+  const availableEquipment = getAvailableEquipment(useEquipmentProfiles());
+
+  // Exercises already in the program stay pickable even when the profile can't do them
+  const usedExerciseIds = new Set(draft.weeks.flatMap(week => week.days.flatMap(day => day.exercises.map(entry => entry.exerciseId))));
+  const catalog = getAllExercises()
+    .filter(exercise => usedExerciseIds.has(exercise.id) || isExerciseAvailable(exercise, availableEquipment));
+
+  const catalogByMuscleGroup = catalog.reduce((acc, exercise) => {
+    (acc[exercise.muscleGroup] = acc[exercise.muscleGroup] || []).push(exercise);
+    return acc;
+  }, {} as Record<string, Exercise[]>);
+
+  const updateWeek = (weekId: string, update: (week: ProgramWeek) => ProgramWeek) => {
+    setDraft(current => ({ ...current, weeks: current.weeks.map(week => (week.id === weekId ? update(week) : week)) }));
+  };
+
+  const updateDay = (weekId: string, dayId: string, update: (day: ProgramDay) => ProgramDay) => {
+    updateWeek(weekId, week => ({ ...week, days: week.days.map(day => (day.id === dayId ? update(day) : day)) }));
+  };
+
+  const updateEntry = (weekId: string, dayId: string, entryId: string, changes: Partial<ProgramExercise>) => {
+    updateDay(weekId, dayId, day => ({
+      ...day,
+      exercises: day.exercises.map(entry => (entry.id === entryId ? { ...entry, ...changes } : entry)),
+    }));
+  };
+
+  const addWeek = (deload: boolean) => {
+    setDraft(current => {
+      const lastWeek = current.weeks[current.weeks.length - 1];
+      const week = lastWeek ? copyProgramWeek(lastWeek, deload) : createProgramWeek();
+      return { ...current, weeks: [...current.weeks, week] };
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Missing Name",
+        description: "Give the program a name before saving",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (draft.weeks.every(week => week.days.every(day => day.exercises.length === 0))) {
+      toast({
+        title: "Empty Program",
+        description: "Add at least one exercise to a training day",
+        variant: "destructive",
+      });
+      return;
+    }
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description?.trim() || undefined,
+      // Days without exercises would never be completed, so drop them
+      weeks: draft.weeks
+        .map(week => ({ ...week, days: week.days.filter(day => day.exercises.length > 0) }))
+        .filter(week => week.days.length > 0),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-glass border-glass backdrop-blur-sm p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="program-name">Program name</Label>
+          <Input
+            id="program-name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g. 6-week upper/lower"
+            className="bg-background"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="program-description">Description</Label>
+          <Textarea
+            id="program-description"
+            value={draft.description || ''}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Goals, progression notes, who it's for..."
+            className="bg-background"
+            rows={2}
+          />
+        </div>
+      </Card>
+
+      {draft.weeks.map((week, weekIndex) => (
+        <Card key={week.id} className="bg-glass border-glass backdrop-blur-sm p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <h3 className="text-lg font-semibold text-foreground">Week {weekIndex + 1}</h3>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`deload-${week.id}`}
+                  checked={week.deload}
+                  onCheckedChange={(deload) => updateWeek(week.id, current => ({ ...current, deload }))}
+                />
+                <Label htmlFor={`deload-${week.id}`} className="text-sm text-muted-foreground">Deload week</Label>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({ ...draft, weeks: draft.weeks.filter(other => other.id !== week.id) })}
+                disabled={draft.weeks.length === 1}
+                className="text-destructive hover:text-destructive/80"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {week.days.map(day => (
+            <div key={day.id} className="p-4 rounded-lg border border-border bg-muted/30 space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={day.name}
+                  onChange={(e) => updateDay(week.id, day.id, current => ({ ...current, name: e.target.value }))}
+                  className="bg-background font-medium"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateWeek(week.id, current => ({ ...current, days: current.days.filter(other => other.id !== day.id) }))}
+                  disabled={week.days.length === 1}
+                  className="text-destructive hover:text-destructive/80"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {day.exercises.length > 0 && (
+                <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+                  <span className="col-span-5">Exercise</span>
+                  <span className="col-span-2">Sets</span>
+                  <span className="col-span-2">Reps</span>
+                  <span className="col-span-2">% 1RM</span>
+                </div>
+              )}
+              {day.exercises.map(entry => (
+                <div key={entry.id} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-5">
+                    <Select
+                      value={entry.exerciseId}
+                      onValueChange={(exerciseId) => updateEntry(week.id, day.id, entry.id, { exerciseId })}
+                    >
+                      <SelectTrigger className="bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(catalogByMuscleGroup).map(([muscleGroup, catalog]) => (
+                          <SelectGroup key={muscleGroup}>
+                            <SelectLabel className="capitalize">{muscleGroup}</SelectLabel>
+                            {catalog.map(exercise => (
+                              <SelectItem key={exercise.id} value={exercise.id}>{exercise.name}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    type="number"
+                    value={entry.sets || ''}
+                    onChange={(e) => updateEntry(week.id, day.id, entry.id, { sets: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="col-span-2 bg-background"
+                    min="1"
+                  />
+                  <Input
+                    value={entry.reps}
+                    onChange={(e) => updateEntry(week.id, day.id, entry.id, { reps: e.target.value })}
+                    className="col-span-2 bg-background"
+                    placeholder="8-12"
+                  />
+                  <Input
+                    type="number"
+                    value={entry.intensity || ''}
+                    onChange={(e) => updateEntry(week.id, day.id, entry.id, {
+                      intensity: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) || undefined,
+                    })}
+                    className="col-span-2 bg-background"
+                    placeholder="-"
+                    min="0"
+                    max="100"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateDay(week.id, day.id, current => ({
+                      ...current,
+                      exercises: current.exercises.filter(other => other.id !== entry.id),
+                    }))}
+                    className="col-span-1 text-destructive hover:text-destructive/80"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateDay(week.id, day.id, current => ({
+                  ...current,
+                  exercises: [...current.exercises, { id: createId(), exerciseId: catalog[0].id, sets: 3, reps: '8-12' }],
+                }))}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Exercise
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateWeek(week.id, current => ({
+              ...current,
+              days: [...current.days, createProgramDay(`Day ${current.days.length + 1}`)],
+            }))}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Day
+          </Button>
+        </Card>
+      ))}
+
+      <div className="flex flex-wrap justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => addWeek(false)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Repeat Last Week
+          </Button>
+          <Button variant="outline" onClick={() => addWeek(true)}>
+            <TrendingDown className="w-4 h-4 mr-2" />
+            Add Deload Week
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave}>
+            <Save className="w-4 h-4 mr-2" />
+            Save Program
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgramEditor;
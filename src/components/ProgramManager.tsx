@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CalendarDays, CheckCircle, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTrainingPrograms } from '@/hooks/use-training-programs';
+import { createProgram, getScheduledDay, trainingPrograms, type TrainingProgram } from '@/services/trainingPrograms';
+import ProgramEditor from './ProgramEditor';
+
+const ProgramManager = () => {
+  const { programs, active } = useTrainingPrograms();
+  const [editing, setEditing] = useState<TrainingProgram | null>(null);
+  const [deleting, setDeleting] = useState<TrainingProgram | null>(null);
+  const { toast } = useToast();
+  const scheduled = getScheduledDay(programs, active);
+
+  const handleSave = (program: TrainingProgram) => {
+    trainingPrograms.save(program);
+    setEditing(null);
+    toast({
+      title: "Program Saved",
+      description: `${program.name}: ${program.weeks.length} week${program.weeks.length === 1 ? '' : 's'}`,
+    });
+  };
+
+  const handleActivate = (program: TrainingProgram) => {
+    trainingPrograms.activate(program.id);
+    toast({
+      title: "Program Started",
+      description: `${program.name} is now your active program`,
+    });
+  };
+
+  const handleConfirmDelete = () => {
+    if (!deleting) return;
+    trainingPrograms.remove(deleting.id);
+    setDeleting(null);
+  };
+
+  if (editing) {
+    return <ProgramEditor program={editing} onSave={handleSave} onCancel={() => setEditing(null)} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => setEditing(createProgram())}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Program
+        </Button>
+      </div>
+
+      {programs.length === 0 ? (
+        <Card className="bg-glass border-glass backdrop-blur-sm p-8 text-center">
+          <CalendarDays className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-foreground mb-2">
+            No Programs Yet
+          </h3>
+          <p className="text-muted-foreground">
+            Build a multi-week plan and the home screen will show what to train each day.
+          </p>
+        </Card>
+      ) : (
+        programs.map(program => {
+          const isActive = active?.programId === program.id;
+          const days = program.weeks.reduce((sum, week) => sum + week.days.length, 0);
+          const deloads = program.weeks.filter(week => week.deload).length;
+
+          return (
+            <Card
+              key={program.id}
+              className={`bg-glass backdrop-blur-sm p-6 ${isActive ? 'border-primary shadow-glow' : 'border-glass'}`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-semibold text-foreground">{program.name}</h3>
+                    {isActive && <Badge className="bg-primary/20 text-primary border-primary/30">Active</Badge>}
+                  </div>
+                  {program.description && <p className="text-sm text-muted-foreground">{program.description}</p>}
+                  <p className="text-sm text-muted-foreground">
+                    {program.weeks.length} week{program.weeks.length === 1 ? '' : 's'} • {days} training day{days === 1 ? '' : 's'}
+                    {deloads > 0 && ` • ${deloads} deload week${deloads === 1 ? '' : 's'}`}
+                  </p>
+                  {isActive && (
+                    <p className="text-sm text-primary">
+                      {scheduled
+                        ? `Next: week ${scheduled.weekNumber}, ${scheduled.day.name} (${scheduled.completedDays}/${scheduled.totalDays} days done)`
+                        : 'Program complete'}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {isActive ? (
+                    <Button variant="outline" onClick={() => trainingPrograms.deactivate()}>
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button variant="outline" onClick={() => handleActivate(program)}>
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      {active ? 'Switch to This' : 'Start Program'}
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(program)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleting(program)}
+                    aria-label="Delete program"
+                    className="text-destructive hover:text-destructive/80"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          );
+        })
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this program?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} will be removed. Workouts already logged from it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProgramManager;
@@ -1,27 +1,67 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Calendar as CalendarPicker } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { TrendingUp, Calendar, Dumbbell } from 'lucide-react';
-import { GoogleSheetsService } from '@/services/googleSheets';
+import { TrendingUp, Calendar, Dumbbell, History, Loader2 } from 'lucide-react';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import SyncStatusBadge from './SyncStatusBadge';
 import { WorkoutLog } from '@/data/exercises';
-import { format, parseISO } from 'date-fns';
+import { format, parseISO, subDays } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { formatWeight, setWeightIn } from '@/lib/units';
+import { estimateOneRepMax, oneRepMaxFormulaPreference } from '@/lib/oneRepMax';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+import { usePreference } from '@/hooks/use-preference';
+import {
+  GRANULARITY_LABELS,
+  TIME_RANGE_LABELS,
+  bucketKey,
+  bucketStart,
+  formatBucket,
+  isWithinWindow,
+  resolveTimeRange,
+  type Granularity,
+  type TimeRangePreset,
+} from '@/lib/timeRanges';
+import OneRepMaxChart from './OneRepMaxChart';
 
 interface ProgressTrackerProps {
-  googleSheetsService: GoogleSheetsService | null;
+  workoutRepository: WorkoutRepository;
   selectedMuscleGroup?: string;
 }
 
-type TimeRange = 'day' |'week' | 'month' | 'quarter';
+const averageRpe = (log: WorkoutLog) => {
+  const rated = log.sets.filter(set => set.rpe !== undefined);
+  if (rated.length === 0) return undefined;
+  return Math.round((rated.reduce((sum, set) => sum + set.rpe, 0) / rated.length) * 10) / 10;
+};
+
+// One point on the charts: totals for a day, week or month
+interface ChartBucket {
+  key: string; // sortable bucket start, see bucketKey
+  date: string; // axis label
+  totalWeight: number;
+  totalReps: number;
+  maxWeight: number;
+  sets: number;
+}
 
-const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressTrackerProps) => {
+const ProgressTracker = ({ workoutRepository, selectedMuscleGroup }: ProgressTrackerProps) => {
   const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([]);
-  const [timeRange, setTimeRange] = useState<TimeRange>('month');
+  const [timeRange, setTimeRange] = useState<TimeRangePreset>('last30');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [granularity, setGranularity] = useState<Granularity>('day');
   const [selectedExercise, setSelectedExercise] = useState<string>('all');
-  const [chartData, setChartData] = useState<any[]>([]);
+  const [chartData, setChartData] = useState<ChartBucket[]>([]);
   const [loading, setLoading] = useState(false);
+  const [unit] = useWeightUnit();
+  const [formula] = usePreference(oneRepMaxFormulaPreference);
+  const [rangeLogs, setRangeLogs] = useState<WorkoutLog[]>([]);
   const [stats, setStats] = useState({
     totalWorkouts: 0,
     totalSets: 0,
@@ -29,44 +69,25 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
     maxWeight: 0
   });
 
-  useEffect(() => {
-    loadWorkoutData();
-  }, [googleSheetsService, selectedMuscleGroup, timeRange]);
-
-  useEffect(() => {
-    processChartData();
-  }, [workoutLogs, selectedExercise, timeRange]);
-
-  const loadWorkoutData = async () => {
-    if (!googleSheetsService) {
-      // Load from localStorage
-      const localLogs = localStorage.getItem('workout_logs');
-      const logs: WorkoutLog[] = localLogs ? JSON.parse(localLogs) : [];
-      
-      const filteredLogs = selectedMuscleGroup 
-        ? logs.filter(log => log.muscleGroup === selectedMuscleGroup)
-        : logs;
-      
-      setWorkoutLogs(filteredLogs);
-      return;
-    }
-
+  const loadWorkoutData = useCallback(async () => {
     setLoading(true);
     try {
-      const logs = await googleSheetsService.getWorkoutHistory(selectedMuscleGroup);
+      const logs = await workoutRepository.query({ muscleGroup: selectedMuscleGroup });
       setWorkoutLogs(logs);
     } catch (error) {
       console.error('Error loading workout data:', error);
-      // Fallback to localStorage
-      const localLogs = localStorage.getItem('workout_logs');
-      const logs: WorkoutLog[] = localLogs ? JSON.parse(localLogs) : [];
-      setWorkoutLogs(logs);
+      setWorkoutLogs([]);
     } finally {
       setLoading(false);
     }
-  };
+  }, [workoutRepository, selectedMuscleGroup]);
 
-  const processChartData = () => {
+  useEffect(() => {
+    loadWorkoutData();
+  }, [loadWorkoutData]);
+
+  // Chart points and stats for the selected exercise, range and unit
+  useEffect(() => {
     let filteredLogs = workoutLogs;
     
     // Filter by exercise if selected
@@ -75,33 +96,19 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
     }
 
     // Filter by time range
-    const now = new Date();
-    const cutoffDate = new Date();
-    
-    switch (timeRange) {
-        case 'day':
-        cutoffDate.setDate(now.getDate());
-        break;
-      case 'week':
-        cutoffDate.setDate(now.getDate() - 7);
-        break;
-      case 'month':
-        cutoffDate.setMonth(now.getMonth() - 1);
-        break;
-      case 'quarter':
-        cutoffDate.setMonth(now.getMonth() - 3);
-        break;
-    }
+    const window = resolveTimeRange(timeRange, new Date(), customRange);
+    filteredLogs = filteredLogs.filter(log => isWithinWindow(log.date, window));
+    setRangeLogs(filteredLogs);
 
-    filteredLogs = filteredLogs.filter(log => new Date(log.date) >= cutoffDate);
-
-    // Group by date and calculate metrics
+    // Group by day, week or month of the local calendar and calculate metrics
     const groupedData = filteredLogs.reduce((acc, log) => {
-      const date = format(parseISO(log.date), 'MMM dd');
-      
-      if (!acc[date]) {
-        acc[date] = {
-          date,
+      const start = bucketStart(parseISO(log.date), granularity);
+      const key = bucketKey(start);
+
+      if (!acc[key]) {
+        acc[key] = {
+          key,
+          date: formatBucket(start, granularity, window),
           totalWeight: 0,
           totalReps: 0,
           maxWeight: 0,
@@ -110,24 +117,23 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
       }
 
       log.sets.forEach(set => {
-        acc[date].totalWeight += set.weight * set.reps;
-        acc[date].totalReps += set.reps;
-        acc[date].maxWeight = Math.max(acc[date].maxWeight, set.weight);
-        acc[date].sets += 1;
+        const weight = setWeightIn(set, unit);
+        acc[key].totalWeight += weight * set.reps;
+        acc[key].totalReps += set.reps;
+        acc[key].maxWeight = Math.max(acc[key].maxWeight, Math.round(weight * 10) / 10);
+        acc[key].sets += 1;
       });
 
       return acc;
-    }, {} as Record<string, any>);
+    }, {} as Record<string, ChartBucket>);
 
-    const chartData = Object.values(groupedData).sort((a: any, b: any) => 
-      new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
+    const chartData = Object.values(groupedData).sort((a, b) => a.key.localeCompare(b.key));
 
     setChartData(chartData);
 
     // Calculate stats
     const totalSets = filteredLogs.reduce((sum, log) => sum + log.sets.length, 0);
-    const allWeights = filteredLogs.flatMap(log => log.sets.map(set => set.weight));
+    const allWeights = filteredLogs.flatMap(log => log.sets.map(set => setWeightIn(set, unit)));
     const averageWeight = allWeights.length > 0 ? allWeights.reduce((sum, w) => sum + w, 0) / allWeights.length : 0;
     const maxWeight = allWeights.length > 0 ? Math.max(...allWeights) : 0;
 
@@ -135,8 +141,17 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
       totalWorkouts: filteredLogs.length,
       totalSets,
       averageWeight: Math.round(averageWeight * 10) / 10,
-      maxWeight
+      maxWeight: Math.round(maxWeight * 10) / 10
     });
+  }, [workoutLogs, selectedExercise, timeRange, customRange, granularity, unit]);
+
+  // Custom ranges start from whatever the previous preset covered
+  const handleTimeRangeChange = (value: TimeRangePreset) => {
+    if (value === 'custom' && !customRange) {
+      const { start, end } = resolveTimeRange(timeRange);
+      setCustomRange({ from: start, to: subDays(end, 1) });
+    }
+    setTimeRange(value);
   };
 
   const getUniqueExercises = () => {
@@ -149,6 +164,24 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
     return Array.from(exercises.entries());
   };
 
+  const bestOneRepMax = (log: WorkoutLog) => Math.max(0, ...log.sets
+    .filter(set => set.type !== 'warmup')
+    .map(set => estimateOneRepMax(setWeightIn(set, unit), set.reps, formula)));
+
+  const recentLogs = workoutLogs
+    .slice()
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, 10);
+
+  if (loading && workoutLogs.length === 0) {
+    return (
+      <Card className="bg-glass border-glass backdrop-blur-sm p-8 text-center">
+        <Loader2 className="w-12 h-12 text-muted-foreground mx-auto mb-4 animate-spin" />
+        <p className="text-muted-foreground">Loading workout data...</p>
+      </Card>
+    );
+  }
+
   if (workoutLogs.length === 0) {
     return (
       <Card className="bg-glass border-glass backdrop-blur-sm p-8 text-center">
@@ -170,19 +203,53 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
         <div className="flex flex-wrap gap-4 items-center">
           <div className="flex items-center gap-2">
             <Calendar className="w-4 h-4 text-primary" />
-            <Select value={timeRange} onValueChange={(value: TimeRange) => setTimeRange(value)}>
-              <SelectTrigger className="w-32">
+            <Select value={timeRange} onValueChange={handleTimeRangeChange}>
+              <SelectTrigger className="w-40">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="day">Day</SelectItem>
-                <SelectItem value="week">Last Week</SelectItem>
-                <SelectItem value="month">Last Month</SelectItem>
-                <SelectItem value="quarter">Last Quarter</SelectItem>
+                {(Object.keys(TIME_RANGE_LABELS) as TimeRangePreset[]).map(preset => (
+                  <SelectItem key={preset} value={preset}>{TIME_RANGE_LABELS[preset]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {timeRange === 'custom' && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="font-normal">
+                    {customRange?.from
+                      ? `${format(customRange.from, 'MMM d, yyyy')}${customRange.to ? ` - ${format(customRange.to, 'MMM d, yyyy')}` : ''}`
+                      : 'Pick dates'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <CalendarPicker
+                    mode="range"
+                    selected={customRange}
+                    onSelect={setCustomRange}
+                    defaultMonth={customRange?.from}
+                    numberOfMonths={2}
+                    weekStartsOn={1}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            )}
           </div>
 
+          <ToggleGroup
+            type="single"
+            value={granularity}
+            onValueChange={(value: Granularity) => value && setGranularity(value)}
+            variant="outline"
+            size="sm"
+            aria-label="Chart granularity"
+          >
+            {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(key => (
+              <ToggleGroupItem key={key} value={key}>{GRANULARITY_LABELS[key]}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
           <div className="flex items-center gap-2">
             <Dumbbell className="w-4 h-4 text-secondary" />
             <Select value={selectedExercise} onValueChange={setSelectedExercise}>
@@ -220,14 +287,14 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
         
         <Card className="bg-glass border-glass backdrop-blur-sm p-4">
           <div className="text-center">
-            <div className="text-2xl font-bold text-foreground">{stats.averageWeight}kg</div>
+            <div className="text-2xl font-bold text-foreground">{formatWeight(stats.averageWeight, unit)}</div>
             <div className="text-sm text-muted-foreground">Avg Weight</div>
           </div>
         </Card>
         
         <Card className="bg-glass border-glass backdrop-blur-sm p-4">
           <div className="text-center">
-            <div className="text-2xl font-bold text-green-400">{stats.maxWeight}kg</div>
+            <div className="text-2xl font-bold text-green-400">{formatWeight(stats.maxWeight, unit)}</div>
             <div className="text-sm text-muted-foreground">Max Weight</div>
           </div>
         </Card>
@@ -262,7 +329,7 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
                 dataKey="maxWeight" 
                 stroke="hsl(var(--primary))" 
                 strokeWidth={3}
-                name="Max Weight (kg)"
+                name={`Max Weight (${unit})`}
                 dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 }}
               />
               <Line 
@@ -278,6 +345,9 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
         </div>
       </Card>
 
+      {/* Estimated 1RM */}
+      <OneRepMaxChart logs={rangeLogs} exerciseId={selectedExercise === 'all' ? null : selectedExercise} />
+
       {/* Volume Chart */}
       <Card className="bg-glass border-glass backdrop-blur-sm p-6">
         <h3 className="text-lg font-semibold text-foreground mb-6">Training Volume</h3>
@@ -309,6 +379,36 @@ const ProgressTracker = ({ googleSheetsService, selectedMuscleGroup }: ProgressT
           </ResponsiveContainer>
         </div>
       </Card>
+
+      {/* Recent Workouts */}
+      <Card className="bg-glass border-glass backdrop-blur-sm p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <History className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Recent Workouts</h3>
+        </div>
+
+        <ul className="space-y-2">
+          {recentLogs.map(log => (
+            <li
+              key={log.id}
+              className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/30"
+            >
+              <div>
+                <div className="text-sm font-medium text-foreground">{log.exerciseName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {format(parseISO(log.date), 'MMM dd, HH:mm')} • {log.sets.length} sets
+                  {averageRpe(log) !== undefined && ` • avg RPE ${averageRpe(log)}`}
+                  {bestOneRepMax(log) > 0 && ` • e1RM ${formatWeight(bestOneRepMax(log), unit)}`}
+                </div>
+                {log.notes && (
+                  <div className="text-xs text-muted-foreground italic mt-1">{log.notes}</div>
+                )}
+              </div>
+              <SyncStatusBadge logId={log.id} />
+            </li>
+          ))}
+        </ul>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,58 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lightbulb } from 'lucide-react';
+import { Exercise } from '@/data/exercises';
+import { PROGRESSION_STRATEGIES, progressionStrategyPreference, type ProgressionStrategy, type Recommendation } from '@/lib/progression';
+import { formatWeight } from '@/lib/units';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import { usePreference } from '@/hooks/use-preference';
+import { useRecommendation } from '@/hooks/use-recommendation';
+
+interface RecommendationPanelProps {
+  exercise: Exercise;
+  workoutRepository?: WorkoutRepository;
+  refreshKey?: unknown;
+  onApply?: (recommendation: Recommendation) => void;
+}
+
+const RecommendationPanel = ({ exercise, workoutRepository, refreshKey, onApply }: RecommendationPanelProps) => {
+  const recommendation = useRecommendation(exercise, workoutRepository, refreshKey);
+  const [strategy, setStrategy] = usePreference(progressionStrategyPreference);
+
+  return (
+    <div className="space-y-2 p-3 rounded-md border border-primary/30 bg-primary/5">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-primary">
+          <Lightbulb className="w-4 h-4" />
+          Next session
+        </div>
+        <Select value={strategy} onValueChange={(value: ProgressionStrategy) => setStrategy(value)}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PROGRESSION_STRATEGIES) as ProgressionStrategy[]).map(key => (
+              <SelectItem key={key} value={key} title={PROGRESSION_STRATEGIES[key].description}>
+                {PROGRESSION_STRATEGIES[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="text-lg font-semibold text-foreground">
+        {recommendation.sets} × {recommendation.reps}
+        {recommendation.weight > 0 && ` @ ${formatWeight(recommendation.weight, recommendation.unit)}`}
+      </div>
+      <p className="text-xs text-muted-foreground">{recommendation.reason}</p>
+
+      {onApply && (
+        <Button variant="outline" size="sm" onClick={() => onApply(recommendation)}>
+          Use these numbers
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default RecommendationPanel;
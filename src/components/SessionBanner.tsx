@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Flag, Timer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkoutSessions } from '@/hooks/use-workout-sessions';
+import { formatDuration, isSessionOpen, workoutSessions } from '@/services/workoutSessions';
+
+const SessionBanner = () => {
+  const sessions = useWorkoutSessions();
+  const [now, setNow] = useState(Date.now());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const active = sessions.find(session => isSessionOpen(session, now));
+  if (!active) return null;
+
+  const minutes = Math.max(0, Math.round((now - new Date(active.startedAt).getTime()) / 60_000));
+
+  const handleFinish = () => {
+    workoutSessions.finish();
+    toast({
+      title: "Workout Finished",
+      description: `${active.logIds.length} exercise${active.logIds.length === 1 ? '' : 's'} in ${formatDuration(minutes)}`,
+    });
+  };
+
+  return (
+    <Card className="bg-glass border-primary/50 backdrop-blur-sm p-4 flex flex-wrap items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <Timer className="w-5 h-5 text-primary" />
+        <div>
+          <div className="font-medium text-foreground">Workout in progress</div>
+          <div className="text-sm text-muted-foreground">
+            {active.logIds.length} exercise{active.logIds.length === 1 ? '' : 's'} logged • {formatDuration(minutes)}
+          </div>
+        </div>
+      </div>
+      <Button variant="outline" onClick={handleFinish}>
+        <Flag className="w-4 h-4 mr-2" />
+        Finish Workout
+      </Button>
+    </Card>
+  );
+};
+
+export default SessionBanner;
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Clock } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { WorkoutLog } from '@/data/exercises';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import { formatDuration, summarizeSessions } from '@/services/workoutSessions';
+import { useWorkoutSessions } from '@/hooks/use-workout-sessions';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+
+interface SessionChartProps {
+  workoutRepository: WorkoutRepository;
+}
+
+const MAX_SESSIONS_SHOWN = 20;
+
+const SessionChart = ({ workoutRepository }: SessionChartProps) => {
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([]);
+  const sessions = useWorkoutSessions();
+  const [unit] = useWeightUnit();
+
+  useEffect(() => {
+    workoutRepository.list()
+      .then(setWorkoutLogs)
+      .catch((error) => {
+        console.error('Error loading workout sessions:', error);
+        setWorkoutLogs([]);
+      });
+  }, [workoutRepository, sessions]);
+
+  const summaries = summarizeSessions(workoutLogs, sessions, unit);
+  if (summaries.length === 0) return null;
+
+  const chartData = summaries.slice(-MAX_SESSIONS_SHOWN).map(summary => ({
+    date: format(parseISO(summary.startedAt), 'MMM dd'),
+    volume: summary.volume,
+    duration: summary.durationMinutes,
+    exercises: summary.exercises,
+  }));
+
+  const averageDuration = Math.round(summaries.reduce((sum, s) => sum + s.durationMinutes, 0) / summaries.length);
+  const averageVolume = Math.round(summaries.reduce((sum, s) => sum + s.volume, 0) / summaries.length);
+  const averageExercises = Math.round((summaries.reduce((sum, s) => sum + s.exercises, 0) / summaries.length) * 10) / 10;
+
+  return (
+    <Card className="bg-glass border-glass backdrop-blur-sm p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Clock className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Workout Sessions</h3>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6 text-center">
+        <div>
+          <div className="text-2xl font-bold text-primary">{summaries.length}</div>
+          <div className="text-sm text-muted-foreground">Sessions</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-secondary">{formatDuration(averageDuration)}</div>
+          <div className="text-sm text-muted-foreground">Avg Duration</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-foreground">{averageVolume.toLocaleString()}{unit}</div>
+          <div className="text-sm text-muted-foreground">Avg Volume</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-green-400">{averageExercises}</div>
+          <div className="text-sm text-muted-foreground">Exercises / Session</div>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis yAxisId="volume" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis yAxisId="minutes" orientation="right" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+            />
+            <Legend />
+            <Bar yAxisId="volume" dataKey="volume" fill="hsl(var(--primary))" name={`Volume (${unit})`} radius={[4, 4, 0, 0]} />
+            <Bar yAxisId="minutes" dataKey="duration" fill="hsl(var(--secondary))" name="Duration (min)" radius={[4, 4, 0, 0]} />
+            <Bar yAxisId="minutes" dataKey="exercises" fill="hsl(var(--muted-foreground))" name="Exercises" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+};
+
+export default SessionChart;
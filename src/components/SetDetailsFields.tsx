@@ -0,0 +1,81 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SET_TYPE_LABELS, SetType, WorkoutSet } from '@/data/exercises';
+
+type SetDetails = Pick<WorkoutSet, 'type' | 'rpe' | 'rir' | 'notes'>;
+
+interface SetDetailsFieldsProps {
+  set: SetDetails;
+  onChange: (details: SetDetails) => void;
+}
+
+// Empty input clears the value instead of storing zero
+const parseOptional = (value: string, parse: (value: string) => number) =>
+  value === '' || isNaN(parse(value)) ? undefined : parse(value);
+
+const SetDetailsFields = ({ set, onChange }: SetDetailsFieldsProps) => {
+  return (
+    <div className="space-y-3 mt-3">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Type</Label>
+          <Select
+            value={set.type || 'working'}
+            onValueChange={(value: SetType) => onChange({ ...set, type: value })}
+          >
+            <SelectTrigger className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SET_TYPE_LABELS) as SetType[]).map(type => (
+                <SelectItem key={type} value={type}>{SET_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">RPE</Label>
+          <Input
+            type="number"
+            value={set.rpe ?? ''}
+            onChange={(e) => {
+              const rpe = parseOptional(e.target.value, parseFloat);
+              onChange({ ...set, rpe: rpe === undefined ? undefined : Math.min(10, Math.max(1, rpe)) });
+            }}
+            className="bg-background"
+            placeholder="-"
+            min="1"
+            max="10"
+            step="0.5"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">RIR</Label>
+          <Input
+            type="number"
+            value={set.rir ?? ''}
+            onChange={(e) => {
+              const rir = parseOptional(e.target.value, parseInt);
+              onChange({ ...set, rir: rir === undefined ? undefined : Math.max(0, rir) });
+            }}
+            className="bg-background"
+            placeholder="-"
+            min="0"
+          />
+        </div>
+      </div>
+
+      <Input
+        value={set.notes || ''}
+        onChange={(e) => onChange({ ...set, notes: e.target.value || undefined })}
+        className="bg-background"
+        placeholder="Set note (optional)"
+      />
+    </div>
+  );
+};
+
+export default SetDetailsFields;
@@ -0,0 +1,39 @@
+import { SET_TYPE_LABELS, WorkoutSet } from '@/data/exercises';
+import { formatWeight, roundToPlate, setWeightIn } from '@/lib/units';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+
+interface SetSummaryProps {
+  set: WorkoutSet;
+  index: number;
+}
+
+const typeStyles: Record<string, string> = {
+  warmup: 'border-blue-500/30 text-blue-400',
+  drop: 'border-purple-500/30 text-purple-400',
+  failure: 'border-red-500/30 text-red-400',
+};
+
+const SetSummary = ({ set, index }: SetSummaryProps) => {
+  const [unit] = useWeightUnit();
+  const loggedUnit = set.unit || 'kg';
+  const effort = [
+    set.rpe !== undefined && `RPE ${set.rpe}`,
+    set.rir !== undefined && `RIR ${set.rir}`,
+    set.timeUnderTension !== undefined && `TUT ${set.timeUnderTension}s`,
+  ].filter(Boolean).join(' / ');
+
+  return (
+    <span
+      className={`text-xs px-2 py-1 rounded bg-background border border-border ${typeStyles[set.type] || ''}`}
+      title={set.notes}
+    >
+      Set {index + 1}: {set.reps} × {formatWeight(set.weight, loggedUnit)}
+      {loggedUnit !== unit && set.weight > 0 && ` (≈${formatWeight(roundToPlate(setWeightIn(set, unit), unit), unit)})`}
+      {set.type && set.type !== 'working' && ` • ${SET_TYPE_LABELS[set.type]}`}
+      {effort && ` • ${effort}`}
+      {set.notes && ` • “${set.notes}”`}
+    </span>
+  );
+};
+
+export default SetSummary;
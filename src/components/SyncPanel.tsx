@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { GoogleSheetsService } from '@/services/googleSheets';
+import { syncWorkouts, type SyncReport } from '@/services/syncEngine';
+import { useToast } from '@/hooks/use-toast';
+
+interface SyncPanelProps {
+  googleSheetsService: GoogleSheetsService;
+  onSynced?: (report: SyncReport) => void;
+}
+
+const SyncPanel = ({ googleSheetsService, onSynced }: SyncPanelProps) => {
+  const [report, setReport] = useState<SyncReport | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { toast } = useToast();
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncWorkouts(googleSheetsService);
+      setReport(result);
+      onSynced?.(result);
+    } catch (error) {
+      toast({
+        title: "Sync Failed",
+        description: error instanceof Error ? error.message : "Could not reach Google Sheets",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <Card className="bg-glass border-glass backdrop-blur-sm p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-foreground">Google Sheets Sync</h3>
+          <p className="text-sm text-muted-foreground">
+            {report
+              ? `Last synced at ${new Date(report.syncedAt).toLocaleTimeString()}`
+              : 'Merge workouts logged on this device with your spreadsheet'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {report && (
+            <>
+              <Badge variant="secondary">{report.pushed.length} uploaded</Badge>
+              <Badge variant="secondary">{report.pulled.length} downloaded</Badge>
+            </>
+          )}
+          <Button variant="outline" onClick={handleSync} disabled={isSyncing}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+            {isSyncing ? 'Syncing...' : 'Sync Now'}
+          </Button>
+        </div>
+      </div>
+
+      {report && report.conflicts.length > 0 && (
+        <Alert className="border-yellow-500/50 bg-yellow-500/10">
+          <AlertCircle className="h-4 w-4 text-yellow-400" />
+          <AlertDescription className="text-yellow-400">
+            <strong>{report.conflicts.length} conflict{report.conflicts.length === 1 ? '' : 's'} found:</strong>
+            <ul className="mt-2 space-y-1">
+              {report.conflicts.map(conflict => (
+                <li key={conflict.logId} className="text-sm">
+                  {conflict.local.exerciseName} ({format(parseISO(conflict.local.date), 'MMM dd, HH:mm')}):{' '}
+                  {conflict.type === 'modified' ? 'sets differ from the sheet' : 'rows were removed from the sheet'}
+                  {' — '}{conflict.resolution}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </Card>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,31 @@
+import { Badge } from '@/components/ui/badge';
+import { CloudOff, CloudUpload, CheckCircle } from 'lucide-react';
+import { useSyncOutbox } from '@/hooks/use-sync-outbox';
+import { syncOutbox, type SyncState } from '@/services/syncOutbox';
+
+interface SyncStatusBadgeProps {
+  logId: string;
+}
+
+const stateStyles: Record<SyncState, { label: string; icon: typeof CheckCircle; className: string }> = {
+  synced: { label: 'Synced', icon: CheckCircle, className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+  pending: { label: 'Pending', icon: CloudUpload, className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  local: { label: 'Local', icon: CloudOff, className: 'bg-muted text-muted-foreground border-border' },
+};
+
+const SyncStatusBadge = ({ logId }: SyncStatusBadgeProps) => {
+  const entries = useSyncOutbox();
+  const state = syncOutbox.getState(logId);
+  const entry = entries.find(e => e.logId === logId);
+  const { label, icon: Icon, className } = stateStyles[state];
+
+  return (
+    <Badge className={className} title={entry?.lastError}>
+      <Icon className="w-3 h-3 mr-1" />
+      {label}
+      {entry && entry.attempts > 0 && ` (${entry.attempts} retries)`}
+    </Badge>
+  );
+};
+
+export default SyncStatusBadge;
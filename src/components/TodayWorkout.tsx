@@ -0,0 +1,76 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CalendarDays, Play } from 'lucide-react';
+import { findExerciseById } from '@/data/exercises';
+import { useTrainingPrograms } from '@/hooks/use-training-programs';
+import { getScheduledDay, isProgramFinished } from '@/services/trainingPrograms';
+
+interface TodayWorkoutProps {
+  onStart: () => void;
+  onManagePrograms: () => void;
+}
+
+const TodayWorkout = ({ onStart, onManagePrograms }: TodayWorkoutProps) => {
+  const { programs, active } = useTrainingPrograms();
+  const scheduled = getScheduledDay(programs, active);
+
+  if (isProgramFinished(programs, active)) {
+    return (
+      <Card className="bg-glass border-primary/50 backdrop-blur-sm p-6 text-left">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <div className="font-semibold text-foreground">Program complete 🎉</div>
+            <div className="text-sm text-muted-foreground">Every day of your program is done. Pick the next one.</div>
+          </div>
+          <Button variant="outline" onClick={onManagePrograms}>Choose Program</Button>
+        </div>
+      </Card>
+    );
+  }
+
+  if (!scheduled) return null;
+
+  const { program, week, day, weekNumber, completedDays, totalDays } = scheduled;
+
+  return (
+    <Card className="bg-glass border-primary/50 backdrop-blur-sm p-6 space-y-4 text-left">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <CalendarDays className="w-5 h-5 text-primary mt-1" />
+          <div>
+            <div className="text-sm text-muted-foreground">{program.name} • Week {weekNumber}</div>
+            <div className="text-xl font-semibold text-foreground flex items-center gap-2">
+              Today: {day.name}
+              {week.deload && <Badge variant="secondary">Deload</Badge>}
+            </div>
+          </div>
+        </div>
+        <Button onClick={onStart}>
+          <Play className="w-4 h-4 mr-2" />
+          Start Workout
+        </Button>
+      </div>
+
+      <ul className="text-sm text-muted-foreground space-y-1">
+        {day.exercises.map(entry => (
+          <li key={entry.id} className="flex justify-between gap-4">
+            <span className="text-foreground">{findExerciseById(entry.exerciseId)?.name || 'Unknown exercise'}</span>
+            <span>
+              {entry.sets} × {entry.reps}
+              {entry.intensity && ` @ ${entry.intensity}%`}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-1">
+        <Progress value={(completedDays / totalDays) * 100} className="h-2" />
+        <div className="text-xs text-muted-foreground">{completedDays} of {totalDays} days done</div>
+      </div>
+    </Card>
+  );
+};
+
+export default TodayWorkout;
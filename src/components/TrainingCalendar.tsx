@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import type { DayContentProps } from 'react-day-picker';
+import { CalendarCheck, Flame } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { WorkoutLog } from '@/data/exercises';
+import { MUSCLE_GROUPS, MUSCLE_GROUP_COLORS } from '@/data/exerciseTaxonomy';
+import { bucketKey } from '@/lib/timeRanges';
+import { getTrainingDays, getTrainingStreaks, getWeeklyFrequency, type TrainingDay } from '@/lib/trainingCalendar';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import SetSummary from './SetSummary';
+
+interface TrainingCalendarProps {
+  workoutRepository: WorkoutRepository;
+}
+
+const FREQUENCY_WEEKS = 4;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Month calendar of training days, each marked with a dot per muscle group
+ * it hit, plus streaks and weekly frequency. Picking a day lists its logs.
+ */
+const TrainingCalendar = ({ workoutRepository }: TrainingCalendarProps) => {
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([]);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+
+  useEffect(() => {
+    workoutRepository.list()
+      .then(setWorkoutLogs)
+      .catch((error) => {
+        console.error('Error loading workout history:', error);
+        setWorkoutLogs([]);
+      });
+  }, [workoutRepository]);
+
+  const trainingDays = getTrainingDays(workoutLogs);
+  const daysByKey = new Map<string, TrainingDay>(trainingDays.map(day => [day.key, day]));
+  const streaks = getTrainingStreaks(trainingDays);
+  const frequency = getWeeklyFrequency(trainingDays, FREQUENCY_WEEKS);
+  const selectedDay = selectedDate ? daysByKey.get(bucketKey(selectedDate)) : undefined;
+
+  const DayContent = ({ date }: DayContentProps) => {
+    const day = daysByKey.get(bucketKey(date));
+    return (
+      <div className="flex flex-col items-center leading-none">
+        <span>{date.getDate()}</span>
+        {day && (
+          <span className="flex gap-0.5 mt-0.5">
+            {day.muscleGroups.map(group => (
+              <span key={group} className="w-1 h-1 rounded-full" style={{ backgroundColor: MUSCLE_GROUP_COLORS[group] }} />
+            ))}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="bg-glass border-glass backdrop-blur-sm p-4 text-center">
+          <div className="flex items-center justify-center gap-1 text-2xl font-bold text-primary">
+            <Flame className="w-5 h-5" />
+            {streaks.current}
+          </div>
+          <div className="text-sm text-muted-foreground">Current Streak (days)</div>
+        </Card>
+        <Card className="bg-glass border-glass backdrop-blur-sm p-4 text-center">
+          <div className="text-2xl font-bold text-secondary">{streaks.longest}</div>
+          <div className="text-sm text-muted-foreground">Longest Streak (days)</div>
+        </Card>
+        <Card className="bg-glass border-glass backdrop-blur-sm p-4 text-center">
+          <div className="text-2xl font-bold text-foreground">{frequency.thisWeek}</div>
+          <div className="text-sm text-muted-foreground">Days This Week</div>
+        </Card>
+        <Card className="bg-glass border-glass backdrop-blur-sm p-4 text-center">
+          <div className="text-2xl font-bold text-green-400">{frequency.average}</div>
+          <div className="text-sm text-muted-foreground">Days / Week ({FREQUENCY_WEEKS} wk avg)</div>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+        <Card className="bg-glass border-glass backdrop-blur-sm p-4 space-y-4">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={setSelectedDate}
+            weekStartsOn={1}
+            modifiers={{ trained: trainingDays.map(day => day.date) }}
+            modifiersClassNames={{ trained: 'font-semibold text-foreground' }}
+            components={{ DayContent }}
+          />
+          <div className="flex flex-wrap gap-3 px-3 text-xs text-muted-foreground max-w-[280px]">
+            {MUSCLE_GROUPS.map(group => (
+              <span key={group} className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: MUSCLE_GROUP_COLORS[group] }} />
+                {capitalize(group)}
+              </span>
+            ))}
+          </div>
+        </Card>
+
+        <Card className="bg-glass border-glass backdrop-blur-sm p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <CalendarCheck className="w-5 h-5 text-primary" />
+            <h3 className="text-lg font-semibold text-foreground">
+              {selectedDate ? format(selectedDate, 'EEEE, MMM d, yyyy') : 'Pick a day'}
+            </h3>
+          </div>
+
+          {!selectedDay ? (
+            <p className="text-muted-foreground">
+              {selectedDate ? 'No training logged on this day.' : 'Select a day on the calendar to see its workouts.'}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {selectedDay.logs.map(log => (
+                <li key={log.id} className="p-4 rounded-lg border border-border bg-muted/30 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-medium text-foreground">{log.exerciseName}</div>
+                    <div className="text-xs text-muted-foreground">{format(parseISO(log.date), 'HH:mm')}</div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {log.sets.map((set, index) => (
+                      <SetSummary key={set.id} set={set} index={index} />
+                    ))}
+                  </div>
+                  {log.notes && <p className="text-xs text-muted-foreground italic">{log.notes}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TrainingCalendar;
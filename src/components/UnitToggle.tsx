@@ -0,0 +1,23 @@
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+import type { WeightUnit } from '@/lib/units';
+
+const UnitToggle = () => {
+  const [unit, setUnit] = useWeightUnit();
+
+  return (
+    <ToggleGroup
+      type="single"
+      value={unit}
+      onValueChange={(value: WeightUnit) => value && setUnit(value)}
+      variant="outline"
+      size="sm"
+      aria-label="Weight unit"
+    >
+      <ToggleGroupItem value="kg" aria-label="Kilograms">kg</ToggleGroupItem>
+      <ToggleGroupItem value="lb" aria-label="Pounds">lb</ToggleGroupItem>
+    </ToggleGroup>
+  );
+};
+
+export default UnitToggle;
@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Play, RefreshCw, Save, Sparkles, Trash2 } from 'lucide-react';
+import { Exercise, WorkoutLog, findExerciseById, getAllExercises } from '@/data/exercises';
+import { MUSCLE_GROUPS, type MuscleGroup } from '@/data/exerciseTaxonomy';
+import { getMuscleGroupSets } from '@/lib/muscleVolume';
+import { getAlternatives } from '@/lib/substitutions';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomExercises } from '@/hooks/use-custom-exercises';
+import { useEquipmentProfiles } from '@/hooks/use-equipment-profiles';
+import { isExerciseAvailable } from '@/services/equipmentProfiles';
+import { trainingPrograms, type ProgramExercise, type TrainingProgram } from '@/services/trainingPrograms';
+import {
+  RECENT_VOLUME_DAYS,
+  createGeneratedProgram,
+  estimateWorkoutMinutes,
+  generateWorkout,
+  getRecentLogs,
+} from '@/services/workoutGenerator';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+
+interface WorkoutGeneratorProps {
+  workoutRepository: WorkoutRepository;
+  onStart: (program: TrainingProgram) => void;
+}
+
+const DIFFICULTIES: Exercise['difficulty'][] = ['beginner', 'intermediate', 'professional'];
+const ANY_EQUIPMENT = 'any';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Builds a session from target muscle groups, a time budget, a difficulty and
+ * an equipment profile. The result can be tweaked, regenerated, saved as a
+ * program or started straight away.
+ */
+const WorkoutGenerator = ({ workoutRepository, onStart }: WorkoutGeneratorProps) => {
+  const { profiles, activeId } = useEquipmentProfiles();
+  const [muscleGroups, setMuscleGroups] = useState<MuscleGroup[]>([]);
+  const [minutes, setMinutes] = useState(45);
+  const [difficulty, setDifficulty] = useState<Exercise['difficulty']>('intermediate');
+  const [profileId, setProfileId] = useState(activeId || ANY_EQUIPMENT);
+  const [exercises, setExercises] = useState<ProgramExercise[] | null>(null);
+  // Created once per generated workout so saving or starting it again reuses the same program
+  const [program, setProgram] = useState<TrainingProgram | null>(null);
+  const [name, setName] = useState('');
+  const [recentLogs, setRecentLogs] = useState<WorkoutLog[]>([]);
+  const { toast } = useToast();
+  // Re-renders when custom exercises change so they can be generated too
+  useCustomExercises();
+
+  useEffect(() => {
+    workoutRepository.list()
+      .then(logs => setRecentLogs(getRecentLogs(logs)))
+      .catch((error) => {
+        console.error('Error loading workout history:', error);
+        setRecentLogs([]);
+      });
+  }, [workoutRepository]);
+
+  const profile = profiles.find(existing => existing.id === profileId);
+  const catalog = getAllExercises().filter(exercise => isExerciseAvailable(exercise, profile ? profile.equipment : null));
+  const recentSets = getMuscleGroupSets(recentLogs);
+
+  const handleGenerate = () => {
+    if (muscleGroups.length === 0) {
+      toast({
+        title: "No Muscle Groups",
+        description: "Pick at least one muscle group to train",
+        variant: "destructive",
+      });
+      return;
+    }
+    const generated = generateWorkout({ muscleGroups, minutes, difficulty }, catalog, recentLogs);
+    if (generated.length === 0) {
+      toast({
+        title: "Nothing Fits",
+        description: "No exercises fit that time budget and equipment",
+        variant: "destructive",
+      });
+      return;
+    }
+    const generatedName = `${muscleGroups.map(capitalize).join(' & ')} (${minutes} min)`;
+    setExercises(generated);
+    setName(generatedName);
+    setProgram(createGeneratedProgram(generatedName, generated));
+  };
+
+  const updateEntry = (entryId: string, changes: Partial<ProgramExercise>) => {
+    setExercises(current => current.map(entry => (entry.id === entryId ? { ...entry, ...changes } : entry)));
+  };
+
+  const toProgram = () => createGeneratedProgram(name.trim() || 'Generated workout', exercises, program);
+
+  const handleSave = () => {
+    const saved = toProgram();
+    trainingPrograms.save(saved);
+    toast({
+      title: "Workout Saved",
+      description: `${saved.name} is now in your programs`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-glass border-glass backdrop-blur-sm p-6 space-y-5">
+        <div className="space-y-2">
+          <Label>Muscle groups</Label>
+          <ToggleGroup
+            type="multiple"
+            value={muscleGroups}
+            onValueChange={(value: MuscleGroup[]) => setMuscleGroups(value)}
+            variant="outline"
+            size="sm"
+            className="flex-wrap justify-start"
+          >
+            {MUSCLE_GROUPS.map(group => (
+              <ToggleGroupItem key={group} value={group} className="h-8 text-xs">{capitalize(group)}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          {muscleGroups.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Last {RECENT_VOLUME_DAYS} days: {muscleGroups
+                .map(group => `${capitalize(group)} ${Math.round(recentSets[group])} sets`)
+                .join(' • ')}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Time available</Label>
+            <span className="text-sm font-medium text-foreground">{minutes} min</span>
+          </div>
+          <Slider value={[minutes]} onValueChange={([value]) => setMinutes(value)} min={15} max={120} step={5} />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Difficulty</Label>
+            <ToggleGroup
+              type="single"
+              value={difficulty}
+              onValueChange={(value: Exercise['difficulty']) => value && setDifficulty(value)}
+              variant="outline"
+              size="sm"
+              className="justify-start"
+            >
+              {DIFFICULTIES.map(level => (
+                <ToggleGroupItem key={level} value={level} className="h-8 text-xs">{capitalize(level)}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <div className="space-y-2">
+            <Label>Equipment</Label>
+            <Select value={profileId} onValueChange={setProfileId}>
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_EQUIPMENT}>Any equipment</SelectItem>
+                {profiles.map(existing => (
+                  <SelectItem key={existing.id} value={existing.id}>{existing.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button onClick={handleGenerate}>
+          {exercises ? <RefreshCw className="w-4 h-4 mr-2" /> : <Sparkles className="w-4 h-4 mr-2" />}
+          {exercises ? 'Regenerate' : 'Generate Workout'}
+        </Button>
+      </Card>
+
+      {exercises && (
+        <Card className="bg-glass border-glass backdrop-blur-sm p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-background font-medium max-w-sm"
+              aria-label="Workout name"
+            />
+            <span className={`text-sm ${estimateWorkoutMinutes(exercises) > minutes ? 'text-yellow-400' : 'text-muted-foreground'}`}>
+              About {estimateWorkoutMinutes(exercises)} of {minutes} min
+            </span>
+          </div>
+
+          {exercises.length > 0 && (
+            <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+              <span className="col-span-7">Exercise</span>
+              <span className="col-span-2">Sets</span>
+              <span className="col-span-2">Reps</span>
+            </div>
+          )}
+          {exercises.map(entry => {
+            const exercise = findExerciseById(entry.exerciseId);
+            const options = exercise ? [exercise, ...getAlternatives(exercise, catalog)] : [];
+
+            return (
+              <div key={entry.id} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-7">
+                  <Select
+                    value={entry.exerciseId}
+                    onValueChange={(exerciseId) => updateEntry(entry.id, { exerciseId, reps: findExerciseById(exerciseId)?.reps || entry.reps })}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {options.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  type="number"
+                  value={entry.sets || ''}
+                  onChange={(e) => updateEntry(entry.id, { sets: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="col-span-2 bg-background"
+                  min="1"
+                />
+                <Input
+                  value={entry.reps}
+                  onChange={(e) => updateEntry(entry.id, { reps: e.target.value })}
+                  className="col-span-2 bg-background"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExercises(current => current.filter(other => other.id !== entry.id))}
+                  className="col-span-1 text-destructive hover:text-destructive/80"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" onClick={handleSave} disabled={exercises.length === 0}>
+              <Save className="w-4 h-4 mr-2" />
+              Save as Program
+            </Button>
+            <Button onClick={() => onStart(toProgram())} disabled={exercises.length === 0}>
+              <Play className="w-4 h-4 mr-2" />
+              Start Workout
+            </Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default WorkoutGenerator;
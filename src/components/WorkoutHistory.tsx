@@ -0,0 +1,331 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Dumbbell, Minus, Pencil, Plus, Trash2, Trophy } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { WorkoutLog, WorkoutSet, findExerciseById } from '@/data/exercises';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+import { useToast } from '@/hooks/use-toast';
+import { createId } from '@/lib/ids';
+import { PLATE_INCREMENT } from '@/lib/units';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+import { workoutSessions } from '@/services/workoutSessions';
+import { PERSONAL_RECORD_LABELS } from '@/lib/personalRecords';
+import SyncStatusBadge from './SyncStatusBadge';
+import SetDetailsFields from './SetDetailsFields';
+import SetSummary from './SetSummary';
+
+interface WorkoutHistoryProps {
+  workoutRepository: WorkoutRepository;
+  selectedMuscleGroup?: string;
+}
+
+const WorkoutHistory = ({ workoutRepository, selectedMuscleGroup }: WorkoutHistoryProps) => {
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([]);
+  const [editingLog, setEditingLog] = useState<WorkoutLog | null>(null);
+  const [draftSets, setDraftSets] = useState<WorkoutSet[]>([]);
+  const [draftNotes, setDraftNotes] = useState('');
+  const [deletingLog, setDeletingLog] = useState<WorkoutLog | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [unit] = useWeightUnit();
+  const { toast } = useToast();
+
+  const loadWorkoutLogs = useCallback(async () => {
+    try {
+      const logs = await workoutRepository.query({ muscleGroup: selectedMuscleGroup });
+      setWorkoutLogs(logs.slice().sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    } catch (error) {
+      console.error('Error loading workout history:', error);
+      setWorkoutLogs([]);
+    }
+  }, [workoutRepository, selectedMuscleGroup]);
+
+  useEffect(() => {
+    loadWorkoutLogs();
+  }, [loadWorkoutLogs]);
+
+  const startEditing = (log: WorkoutLog) => {
+    setEditingLog(log);
+    setDraftSets(log.sets.map(set => ({ ...set })));
+    setDraftNotes(log.notes || '');
+  };
+
+  const updateDraftSet = (index: number, field: 'reps' | 'weight', value: number) => {
+    setDraftSets(draftSets.map((set, i) =>
+      i === index ? { ...set, [field]: Math.max(0, value) } : set
+    ));
+  };
+
+  const updateDraftSetDetails = (index: number, details: Partial<WorkoutSet>) => {
+    setDraftSets(draftSets.map((set, i) => (i === index ? { ...set, ...details } : set)));
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingLog) return;
+
+    const validSets = draftSets.filter(set => set.reps > 0);
+    if (validSets.length === 0) {
+      toast({
+        title: "Invalid Workout",
+        description: "Keep at least one set with reps > 0, or delete the workout instead",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await workoutRepository.update(editingLog.id, {
+        ...editingLog,
+        sets: validSets,
+        notes: draftNotes.trim() || undefined,
+        updatedAt: new Date().toISOString(),
+      });
+      if (!updated) {
+        throw new Error(`${editingLog.exerciseName} could not be found, it may already have been deleted`);
+      }
+      setEditingLog(null);
+      toast({
+        title: "Workout Updated",
+        description: `${editingLog.exerciseName}: ${validSets.length} sets saved`,
+      });
+      await loadWorkoutLogs();
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not update workout",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deletingLog) return;
+
+    try {
+      const deleted = await workoutRepository.delete(deletingLog.id);
+      if (!deleted) {
+        await loadWorkoutLogs();
+        throw new Error(`${deletingLog.exerciseName} could not be found, it may already have been deleted`);
+      }
+      workoutSessions.removeLog(deletingLog.id);
+      toast({
+        title: "Workout Deleted",
+        description: `${deletingLog.exerciseName} was removed from your history`,
+      });
+      await loadWorkoutLogs();
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not delete workout",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingLog(null);
+    }
+  };
+
+  const logsByDay = workoutLogs.reduce((acc, log) => {
+    const day = format(parseISO(log.date), 'EEEE, MMM dd yyyy');
+    (acc[day] = acc[day] || []).push(log);
+    return acc;
+  }, {} as Record<string, WorkoutLog[]>);
+
+  if (workoutLogs.length === 0) {
+    return (
+      <Card className="bg-glass border-glass backdrop-blur-sm p-8 text-center">
+        <Dumbbell className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-foreground mb-2">
+          No Workouts Logged
+        </h3>
+        <p className="text-muted-foreground">
+          Logged workouts will show up here so you can fix or remove them.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {Object.entries(logsByDay).map(([day, logs]) => (
+        <Card key={day} className="bg-glass border-glass backdrop-blur-sm p-6">
+          <h3 className="text-lg font-semibold text-foreground mb-4">{day}</h3>
+          <ul className="space-y-3">
+            {logs.map(log => (
+              <li key={log.id} className="p-4 rounded-lg border border-border bg-muted/30">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 font-medium text-foreground">
+                      {log.exerciseName}
+                      {log.personalRecords?.length > 0 && (
+                        <Badge
+                          className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
+                          title={log.personalRecords.map(type => PERSONAL_RECORD_LABELS[type]).join(', ')}
+                        >
+                          <Trophy className="w-3 h-3 mr-1" />
+                          PR
+                        </Badge>
+                      )}
+                      {log.substitutedFor && (
+                        <Badge variant="outline" className="text-muted-foreground">
+                          instead of {findExerciseById(log.substitutedFor)?.name || log.substitutedFor}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(parseISO(log.date), 'HH:mm')}
+                      {log.updatedAt && ` • edited ${format(parseISO(log.updatedAt), 'MMM dd, HH:mm')}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <SyncStatusBadge logId={log.id} />
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(log)} aria-label="Edit workout">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeletingLog(log)}
+                      aria-label="Delete workout"
+                      className="text-destructive hover:text-destructive/80"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {log.sets.map((set, index) => (
+                    <SetSummary key={set.id} set={set} index={index} />
+                  ))}
+                </div>
+                {log.notes && (
+                  <p className="text-sm text-muted-foreground italic mt-2">{log.notes}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      ))}
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingLog} onOpenChange={(open) => !open && setEditingLog(null)}>
+        <DialogContent className="bg-card border-glass backdrop-blur-lg max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit {editingLog?.exerciseName}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {draftSets.map((set, index) => (
+              <div key={set.id} className="bg-muted/30 p-3 rounded-lg border border-border">
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-sm font-medium">Set {index + 1}</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraftSets(draftSets.filter((_, i) => i !== index))}
+                    disabled={draftSets.length === 1}
+                    className="text-destructive hover:text-destructive/80"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Reps</Label>
+                    <Input
+                      type="number"
+                      value={set.reps || ''}
+                      onChange={(e) => updateDraftSet(index, 'reps', parseInt(e.target.value) || 0)}
+                      className="bg-background"
+                      min="0"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Weight ({set.unit || 'kg'})</Label>
+                    <Input
+                      type="number"
+                      value={set.weight || ''}
+                      onChange={(e) => updateDraftSet(index, 'weight', parseFloat(e.target.value) || 0)}
+                      className="bg-background"
+                      min="0"
+                      step={PLATE_INCREMENT[set.unit || 'kg']}
+                    />
+                  </div>
+                </div>
+
+                <SetDetailsFields set={set} onChange={(details) => updateDraftSetDetails(index, details)} />
+              </div>
+            ))}
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={() => setDraftSets([...draftSets, { id: createId(), reps: 0, weight: 0, unit: draftSets[draftSets.length - 1]?.unit || unit }])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Set
+          </Button>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Session Notes</Label>
+            <Textarea
+              value={draftNotes}
+              onChange={(e) => setDraftNotes(e.target.value)}
+              className="bg-background min-h-[60px]"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setEditingLog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deletingLog} onOpenChange={(open) => !open && setDeletingLog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this workout?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingLog?.exerciseName} with {deletingLog?.sets.length} sets will be removed from this device
+              and from your Google Sheet.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default WorkoutHistory;
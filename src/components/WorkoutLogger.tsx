@@ -1,46 +1,131 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Minus, Save, Timer } from 'lucide-react';
-import { Exercise, WorkoutLog } from '@/data/exercises';
+import { Textarea } from '@/components/ui/textarea';
+import { History, Plus, Minus, Play, Save, Timer, Trophy } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Exercise, WorkoutLog, WorkoutSet } from '@/data/exercises';
 import { useToast } from '@/hooks/use-toast';
+import { createId } from '@/lib/ids';
+import { PLATE_INCREMENT, formatWeight, roundToPlate, setWeightIn, type WeightUnit } from '@/lib/units';
+import { beatsSet } from '@/lib/performance';
+import { useWeightUnit } from '@/hooks/use-weight-unit';
+import { getLastWorkout, type WorkoutRepository } from '@/services/workoutRepository';
+import { workoutSessions } from '@/services/workoutSessions';
+import SetDetailsFields from './SetDetailsFields';
+import RecommendationPanel from './RecommendationPanel';
+import type { Recommendation } from '@/lib/progression';
+import type { PersonalRecord } from '@/lib/personalRecords';
 
-interface Set {
+// Each set keeps the unit its weight was entered in
+type Set = Omit<WorkoutSet, 'id'> & { unit: WeightUnit };
+
+// Sets to start from instead of the last log, e.g. a program's prescription
+export interface WorkoutPlan {
+  sets: number;
   reps: number;
   weight: number;
 }
 
 interface WorkoutLoggerProps {
   exercise: Exercise;
-  onLogWorkout: (workoutLog: WorkoutLog) => void;
+  onLogWorkout: (workoutLog: WorkoutLog) => Promise<PersonalRecord[] | null>; // null when the log could not be saved
+  onStartLiveWorkout?: (exercise: Exercise) => void;
+  workoutRepository?: WorkoutRepository;
   isLogging?: boolean;
+  plan?: WorkoutPlan;
+  defaultExpanded?: boolean;
 }
 
-const WorkoutLogger = ({ exercise, onLogWorkout, isLogging }: WorkoutLoggerProps) => {
-  const [sets, setSets] = useState<Set[]>([{ reps: 0, weight: 0 }]);
-  const [isExpanded, setIsExpanded] = useState(false);
+// Plans are worked out in the unit being shown
+const planSets = (unit: WeightUnit, plan?: WorkoutPlan): Set[] => plan
+  ? Array.from({ length: plan.sets }, () => ({ reps: plan.reps, weight: plan.weight, unit }))
+  : [{ reps: 0, weight: 0, unit }];
+
+const WorkoutLogger = ({ exercise, onLogWorkout, onStartLiveWorkout, workoutRepository, isLogging, plan, defaultExpanded = false }: WorkoutLoggerProps) => {
+  const [unit] = useWeightUnit();
+  const [sets, setSets] = useState<Set[]>(() => planSets(unit, plan));
+  const hasPlan = !!plan;
+  const [sessionNotes, setSessionNotes] = useState('');
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const [lastLog, setLastLog] = useState<WorkoutLog | null>(null);
+  const [prefilledFrom, setPrefilledFrom] = useState<WorkoutLog | null>(null);
+  const setsRef = useRef(sets);
+  setsRef.current = sets;
   const { toast } = useToast();
 
+  // Switching units converts the weights already in the form instead of relabelling them
+  useEffect(() => {
+    setSets(current => current.some(set => set.unit !== unit)
+      ? current.map(set => set.unit === unit
+        ? set
+        : { ...set, weight: Math.round(setWeightIn(set, unit) * 10) / 10, unit })
+      : current);
+  }, [unit]);
+
+  useEffect(() => {
+    if (!isExpanded || !workoutRepository) return;
+
+    let cancelled = false;
+    getLastWorkout(workoutRepository, exercise.id)
+      .then(log => {
+        if (cancelled || !log) return;
+        setLastLog(log);
+        // Start from last time's sets unless following a plan or the user already typed something
+        if (hasPlan || setsRef.current.some(set => set.reps > 0 || set.weight > 0)) return;
+        setSets(log.sets.map(set => ({
+          reps: set.reps,
+          weight: (set.unit || 'kg') === unit ? set.weight : roundToPlate(setWeightIn(set, unit), unit),
+          unit,
+          ...(set.type && { type: set.type }),
+        })));
+        setPrefilledFrom(log);
+      })
+      .catch(error => console.error('Error loading last workout:', error));
+
+    return () => { cancelled = true; };
+  }, [isExpanded, workoutRepository, exercise.id, unit, hasPlan]);
+
+  // The first edit starts the visit's session, so its duration includes this exercise.
+  // Only browsing an exercise leaves no session behind.
+  const editSets = (next: Set[]) => {
+    workoutSessions.ensure();
+    setSets(next);
+  };
+
   const addSet = () => {
-    setSets([...sets, { reps: 0, weight: 0 }]);
+    editSets([...sets, { reps: 0, weight: 0, unit }]);
   };
 
   const removeSet = (index: number) => {
     if (sets.length > 1) {
-      setSets(sets.filter((_, i) => i !== index));
+      editSets(sets.filter((_, i) => i !== index));
     }
   };
 
   const updateSet = (index: number, field: 'reps' | 'weight', value: number) => {
-    setSets(sets.map((set, i) => 
+    editSets(sets.map((set, i) => 
       i === index ? { ...set, [field]: Math.max(0, value) } : set
     ));
   };
 
-  const handleLogWorkout = () => {
+  const updateSetDetails = (index: number, details: Partial<Set>) => {
+    editSets(sets.map((set, i) => (i === index ? { ...set, ...details } : set)));
+  };
+
+  const applyRecommendation = (recommendation: Recommendation) => {
+    setPrefilledFrom(null);
+    editSets(Array.from({ length: recommendation.sets }, () => ({
+      reps: recommendation.reps,
+      weight: recommendation.weight,
+      unit: recommendation.unit,
+    })));
+  };
+
+  const handleLogWorkout = async () => {
     const validSets = sets.filter(set => set.reps > 0);
     
     if (validSets.length === 0) {
@@ -52,20 +137,32 @@ const WorkoutLogger = ({ exercise, onLogWorkout, isLogging }: WorkoutLoggerProps
       return;
     }
 
+    const now = new Date().toISOString();
     const workoutLog: WorkoutLog = {
+      id: createId(),
       exerciseId: exercise.id,
       exerciseName: exercise.name,
-      sets: validSets,
-      date: new Date().toISOString(),
+      sets: validSets.map(set => ({ id: createId(), ...set })),
+      date: now,
+      createdAt: now,
       muscleGroup: exercise.muscleGroup,
+      difficulty: exercise.difficulty,
+      ...(sessionNotes.trim() && { notes: sessionNotes.trim() }),
     };
 
-    onLogWorkout(workoutLog);
+    // The app reports failed saves, and the form keeps its sets so they can be logged again
+    const records = await onLogWorkout(workoutLog);
+    if (!records) return;
+    setLastLog(workoutLog);
     
     // Reset form
-    setSets([{ reps: 0, weight: 0 }]);
+    setSets(planSets(unit, plan));
+    setPrefilledFrom(null);
+    setSessionNotes('');
     setIsExpanded(false);
-    
+
+    // New records get the app's PR toast instead
+    if (records.length > 0) return;
     toast({
       title: "Workout Logged!",
       description: `${exercise.name}: ${validSets.length} sets completed`,
@@ -81,9 +178,24 @@ const WorkoutLogger = ({ exercise, onLogWorkout, isLogging }: WorkoutLoggerProps
             <Timer className="w-5 h-5 text-primary" />
             <span className="font-medium">Log Workout</span>
           </div>
-          <Button variant="ghost" size="sm">
-            Start Logging
-          </Button>
+          <div className="flex items-center gap-2">
+            {onStartLiveWorkout && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onStartLiveWorkout(exercise);
+                }}
+              >
+                <Play className="w-4 h-4 mr-1" />
+                Live Workout
+              </Button>
+            )}
+            <Button variant="ghost" size="sm">
+              Start Logging
+            </Button>
+          </div>
         </div>
       </Card>
     );
@@ -101,50 +213,100 @@ const WorkoutLogger = ({ exercise, onLogWorkout, isLogging }: WorkoutLoggerProps
           </Badge>
         </div>
 
+        <RecommendationPanel
+          exercise={exercise}
+          workoutRepository={workoutRepository}
+          refreshKey={lastLog?.id}
+          onApply={applyRecommendation}
+        />
+
         <div className="space-y-4">
-          {sets.map((set, index) => (
-            <div key={index} className="bg-muted/30 p-4 rounded-lg border border-border">
-              <div className="flex items-center justify-between mb-3">
-                <Label className="text-sm font-medium">Set {index + 1}</Label>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => removeSet(index)}
-                  disabled={sets.length === 1}
-                  className="text-destructive hover:text-destructive/80"
-                >
-                  <Minus className="w-4 h-4" />
-                </Button>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label className="text-xs text-muted-foreground">Reps</Label>
-                  <Input
-                    type="number"
-                    value={set.reps || ''}
-                    onChange={(e) => updateSet(index, 'reps', parseInt(e.target.value) || 0)}
-                    className="bg-background"
-                    placeholder="0"
-                    min="0"
-                  />
+          {sets.map((set, index) => {
+            const previous = lastLog?.sets[index];
+            const beaten = previous && beatsSet(set, previous);
+
+            return (
+              <div
+                key={index}
+                className={`bg-muted/30 p-4 rounded-lg border ${beaten ? 'border-green-500/60 bg-green-500/5' : 'border-border'}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-sm font-medium">Set {index + 1}</Label>
+                    {beaten && (
+                      <Badge className="bg-green-500/20 text-green-400 border-green-500/30 text-xs">
+                        <Trophy className="w-3 h-3 mr-1" />
+                        Beat last time
+                      </Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeSet(index)}
+                    disabled={sets.length === 1}
+                    className="text-destructive hover:text-destructive/80"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </Button>
                 </div>
                 
-                <div className="space-y-2">
-                  <Label className="text-xs text-muted-foreground">Weight (kg)</Label>
-                  <Input
-                    type="number"
-                    value={set.weight || ''}
-                    onChange={(e) => updateSet(index, 'weight', parseFloat(e.target.value) || 0)}
-                    className="bg-background"
-                    placeholder="0"
-                    min="0"
-                    step="0.5"
-                  />
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Reps</Label>
+                    <Input
+                      type="number"
+                      value={set.reps || ''}
+                      onChange={(e) => updateSet(index, 'reps', parseInt(e.target.value) || 0)}
+                      className="bg-background"
+                      placeholder="0"
+                      min="0"
+                    />
+                    {previous && (
+                      <p className="text-xs text-muted-foreground">Last: {previous.reps}</p>
+                    )}
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Weight ({unit})</Label>
+                    <Input
+                      type="number"
+                      value={set.weight || ''}
+                      onChange={(e) => updateSet(index, 'weight', parseFloat(e.target.value) || 0)}
+                      className="bg-background"
+                      placeholder="0"
+                      min="0"
+                      step={PLATE_INCREMENT[unit]}
+                    />
+                    {previous && (
+                      <p className="text-xs text-muted-foreground">
+                        Last: {formatWeight(previous.weight, previous.unit || 'kg')}
+                      </p>
+                    )}
+                  </div>
                 </div>
+
+                <SetDetailsFields set={set} onChange={(details) => updateSetDetails(index, details)} />
               </div>
-            </div>
-          ))}
+            );
+          })}
+        </div>
+
+        {prefilledFrom && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <History className="w-3 h-3" />
+            Prefilled from {format(parseISO(prefilledFrom.date), 'MMM dd')}: {prefilledFrom.sets.length} sets
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Session Notes</Label>
+          <Textarea
+            value={sessionNotes}
+            onChange={(e) => setSessionNotes(e.target.value)}
+            className="bg-background min-h-[60px]"
+            placeholder="How did it feel? Anything to remember next time?"
+          />
         </div>
 
         <div className="flex gap-3">
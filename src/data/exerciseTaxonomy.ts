@@ -0,0 +1,202 @@
+export type MuscleGroup = 'chest' | 'biceps' | 'triceps' | 'back' | 'shoulders' | 'legs' | 'abs';
+
+export type Muscle =
+  | 'chest'
+  | 'front-delts'
+  | 'side-delts'
+  | 'rear-delts'
+  | 'biceps'
+  | 'forearms'
+  | 'triceps'
+  | 'lats'
+  | 'upper-back'
+  | 'lower-back'
+  | 'quads'
+  | 'hamstrings'
+  | 'glutes'
+  | 'calves'
+  | 'abs'
+  | 'obliques';
+
+export type MovementPattern = 'push' | 'pull' | 'hinge' | 'squat' | 'carry' | 'core' | 'mobility';
+export type Mechanics = 'compound' | 'isolation';
+export type Laterality = 'bilateral' | 'unilateral' | 'alternating';
+
+export type EquipmentTag =
+  | 'bodyweight'
+  | 'barbell'
+  | 'dumbbell'
+  | 'machine'
+  | 'cable'
+  | 'bench'
+  | 'rack'
+  | 'pull-up-bar'
+  | 'dip-station'
+  | 'band'
+  | 'weight-belt'
+  | 'household';
+
+// Body parts the app is navigated by, in display order
+export const MUSCLE_GROUPS: MuscleGroup[] = ['chest', 'biceps', 'triceps', 'back', 'shoulders', 'legs', 'abs'];
+
+// Chart and calendar colour for each body part
+export const MUSCLE_GROUP_COLORS: Record<MuscleGroup, string> = {
+  chest: 'hsl(var(--primary))',
+  biceps: 'hsl(var(--secondary))',
+  triceps: 'hsl(280 65% 60%)',
+  back: 'hsl(199 89% 48%)',
+  shoulders: 'hsl(45 90% 55%)',
+  legs: 'hsl(142 70% 45%)',
+  abs: 'hsl(0 80% 60%)',
+};
+
+export const MUSCLE_GROUP_OF: Record<Muscle, MuscleGroup> = {
+  chest: 'chest',
+  'front-delts': 'shoulders',
+  'side-delts': 'shoulders',
+  'rear-delts': 'shoulders',
+  biceps: 'biceps',
+  forearms: 'biceps',
+  triceps: 'triceps',
+  lats: 'back',
+  'upper-back': 'back',
+  'lower-back': 'back',
+  quads: 'legs',
+  hamstrings: 'legs',
+  glutes: 'legs',
+  calves: 'legs',
+  abs: 'abs',
+  obliques: 'abs',
+};
+
+export const MUSCLES = Object.keys(MUSCLE_GROUP_OF) as Muscle[];
+
+export const MUSCLE_LABELS: Record<Muscle, string> = {
+  chest: 'Chest',
+  'front-delts': 'Front delts',
+  'side-delts': 'Side delts',
+  'rear-delts': 'Rear delts',
+  biceps: 'Biceps',
+  forearms: 'Forearms',
+  triceps: 'Triceps',
+  lats: 'Lats',
+  'upper-back': 'Upper back',
+  'lower-back': 'Lower back',
+  quads: 'Quads',
+  hamstrings: 'Hamstrings',
+  glutes: 'Glutes',
+  calves: 'Calves',
+  abs: 'Abs',
+  obliques: 'Obliques',
+};
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+  push: 'Push',
+  pull: 'Pull',
+  hinge: 'Hinge',
+  squat: 'Squat',
+  carry: 'Carry',
+  core: 'Core',
+  mobility: 'Mobility',
+};
+
+export const EQUIPMENT_TAG_LABELS: Record<EquipmentTag, string> = {
+  bodyweight: 'Bodyweight',
+  barbell: 'Barbell',
+  dumbbell: 'Dumbbells',
+  machine: 'Machines',
+  cable: 'Cable machine',
+  bench: 'Bench',
+  rack: 'Rack',
+  'pull-up-bar': 'Pull-up bar',
+  'dip-station': 'Dip station',
+  band: 'Resistance band',
+  'weight-belt': 'Weight belt',
+  household: 'Household items',
+};
+
+// Share of a set's volume credited to each secondary muscle
+export const SECONDARY_MUSCLE_SHARE = 0.5;
+
+export interface ExerciseAnatomy {
+  primaryMuscles: Muscle[];
+  secondaryMuscles: Muscle[];
+  movementPattern: MovementPattern;
+  mechanics: Mechanics;
+  laterality: Laterality;
+}
+
+// Checked in order, so "Cable Machine" is a cable rather than a machine
+const EQUIPMENT_MATCHERS: [RegExp, EquipmentTag][] = [
+  [/barbell/i, 'barbell'],
+  [/dumbbell/i, 'dumbbell'],
+  [/cable/i, 'cable'],
+  [/machine|pec deck|smith/i, 'machine'],
+  [/bench/i, 'bench'],
+  [/rack/i, 'rack'],
+  [/pull-?up bar/i, 'pull-up-bar'],
+  [/dip station/i, 'dip-station'],
+  [/band/i, 'band'],
+  [/weight belt/i, 'weight-belt'],
+  [/towel|chair|backpack|book|water|bottle/i, 'household'],
+];
+
+/**
+ * Normalised tags for free-text equipment names. No equipment means a
+ * bodyweight exercise; names that match nothing are left out.
+ */
+export function tagEquipment(equipment: string[]): EquipmentTag[] {
+  if (equipment.length === 0) return ['bodyweight'];
+
+  const tags = new Set<EquipmentTag>();
+  equipment.forEach((name) => {
+    const match = EQUIPMENT_MATCHERS.find(([pattern]) => pattern.test(name));
+    if (match) tags.add(match[1]);
+  });
+  return Array.from(tags);
+}
+
+const DEFAULT_ANATOMY: Record<MuscleGroup, Omit<ExerciseAnatomy, 'laterality'>> = {
+  chest: { primaryMuscles: ['chest'], secondaryMuscles: ['front-delts', 'triceps'], movementPattern: 'push', mechanics: 'compound' },
+  biceps: { primaryMuscles: ['biceps'], secondaryMuscles: ['forearms'], movementPattern: 'pull', mechanics: 'isolation' },
+  triceps: { primaryMuscles: ['triceps'], secondaryMuscles: [], movementPattern: 'push', mechanics: 'isolation' },
+  back: { primaryMuscles: ['lats', 'upper-back'], secondaryMuscles: ['biceps', 'rear-delts'], movementPattern: 'pull', mechanics: 'compound' },
+  shoulders: { primaryMuscles: ['front-delts', 'side-delts'], secondaryMuscles: ['triceps'], movementPattern: 'push', mechanics: 'compound' },
+  legs: { primaryMuscles: ['quads', 'glutes'], secondaryMuscles: ['hamstrings'], movementPattern: 'squat', mechanics: 'compound' },
+  abs: { primaryMuscles: ['abs'], secondaryMuscles: ['obliques'], movementPattern: 'core', mechanics: 'isolation' },
+};
+
+/**
+ * A reasonable anatomy for an exercise known only by its muscle group, e.g.
+ * custom exercises saved before these fields existed.
+ */
+export function defaultAnatomy(muscleGroup: string, reps = ''): ExerciseAnatomy {
+  const defaults = DEFAULT_ANATOMY[muscleGroup as MuscleGroup] || DEFAULT_ANATOMY.chest;
+  return {
+    ...defaults,
+    primaryMuscles: [...defaults.primaryMuscles],
+    secondaryMuscles: [...defaults.secondaryMuscles],
+    laterality: /\beach\b/i.test(reps) ? 'unilateral' : 'bilateral',
+  };
+}
+
+/**
+ * Muscles an exercise trains with the share of its volume each receives:
+ * all of it for primary muscles and SECONDARY_MUSCLE_SHARE for secondary ones.
+ */
+export function getMuscleContributions(exercise: Pick<ExerciseAnatomy, 'primaryMuscles' | 'secondaryMuscles'>) {
+  const contributions = new Map<Muscle, number>();
+  exercise.secondaryMuscles.forEach((muscle) => contributions.set(muscle, SECONDARY_MUSCLE_SHARE));
+  exercise.primaryMuscles.forEach((muscle) => contributions.set(muscle, 1));
+  return Array.from(contributions, ([muscle, share]) => ({ muscle, share }));
+}
+
+// The same contributions rolled up to body parts, keeping the largest share per group
+export function getMuscleGroupContributions(exercise: Pick<ExerciseAnatomy, 'primaryMuscles' | 'secondaryMuscles'>) {
+  const contributions = new Map<MuscleGroup, number>();
+  getMuscleContributions(exercise).forEach(({ muscle, share }) => {
+    const group = MUSCLE_GROUP_OF[muscle];
+    contributions.set(group, Math.max(contributions.get(group) || 0, share));
+  });
+  return Array.from(contributions, ([muscleGroup, share]) => ({ muscleGroup, share }));
+}
@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { activeWorkout, type ActiveWorkoutState } from "@/services/activeWorkout";
+
+export function useActiveWorkout() {
+  const [state, setState] = useState<ActiveWorkoutState | null>(activeWorkout.get());
+
+  useEffect(() => activeWorkout.subscribe(setState), []);
+
+  return state;
+}
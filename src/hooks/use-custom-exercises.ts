@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { customExercises, type CustomExercise } from "@/services/customExercises";
+
+export function useCustomExercises() {
+  const [exercises, setExercises] = useState<CustomExercise[]>(customExercises.getAll());
+
+  useEffect(() => customExercises.subscribe(setExercises), []);
+
+  return exercises;
+}
@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { equipmentProfiles, type EquipmentProfilesState } from "@/services/equipmentProfiles";
+
+export function useEquipmentProfiles() {
+  const [state, setState] = useState<EquipmentProfilesState>(equipmentProfiles.getState());
+
+  useEffect(() => equipmentProfiles.subscribe(setState), []);
+
+  return state;
+}
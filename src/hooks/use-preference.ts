@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import type { Preference } from "@/lib/preferences";
+
+export function usePreference<T>(preference: Preference<T>) {
+  const [value, setValue] = useState<T>(preference.get());
+
+  useEffect(() => preference.subscribe(setValue), [preference]);
+
+  return [value, preference.set] as const;
+}
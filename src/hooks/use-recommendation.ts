@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Exercise, WorkoutLog } from "@/data/exercises";
+import { progressionStrategyPreference, recommendNextSession } from "@/lib/progression";
+import { oneRepMaxFormulaPreference } from "@/lib/oneRepMax";
+import type { WorkoutRepository } from "@/services/workoutRepository";
+import { usePreference } from "@/hooks/use-preference";
+import { useWeightUnit } from "@/hooks/use-weight-unit";
+
+export function useRecommendation(exercise: Exercise, workoutRepository?: WorkoutRepository, refreshKey?: unknown) {
+  const [logs, setLogs] = useState<WorkoutLog[]>([]);
+  const [unit] = useWeightUnit();
+  const [strategy] = usePreference(progressionStrategyPreference);
+  const [formula] = usePreference(oneRepMaxFormulaPreference);
+
+  useEffect(() => {
+    if (!workoutRepository) return;
+
+    let cancelled = false;
+    workoutRepository.query({ exerciseId: exercise.id })
+      .then((result) => { if (!cancelled) setLogs(result); })
+      .catch((error) => console.error("Error loading exercise history:", error));
+
+    return () => { cancelled = true; };
+  }, [workoutRepository, exercise.id, refreshKey]);
+
+  return useMemo(
+    () => recommendNextSession(exercise, logs, strategy, unit, formula),
+    [exercise, logs, strategy, unit, formula]
+  );
+}
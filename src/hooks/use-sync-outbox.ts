@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { syncOutbox, type OutboxEntry } from "@/services/syncOutbox";
+
+export function useSyncOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>(syncOutbox.getEntries());
+
+  useEffect(() => syncOutbox.subscribe(setEntries), []);
+
+  return entries;
+}
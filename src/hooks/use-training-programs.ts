@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+import { trainingPrograms, type ProgramsState } from "@/services/trainingPrograms";
+
+export function useTrainingPrograms() {
+  const [state, setState] = useState<ProgramsState>({
+    programs: trainingPrograms.getPrograms(),
+    active: trainingPrograms.getActive(),
+  });
+
+  useEffect(() => trainingPrograms.subscribe(setState), []);
+
+  return state;
+}
@@ -0,0 +1,6 @@
+import { weightUnitPreference } from "@/lib/units";
+import { usePreference } from "@/hooks/use-preference";
+
+export function useWeightUnit() {
+  return usePreference(weightUnitPreference);
+}
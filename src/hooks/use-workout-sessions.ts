@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+import type { WorkoutSession } from "@/data/exercises";
+import { workoutSessions } from "@/services/workoutSessions";
+
+export function useWorkoutSessions() {
+  const [sessions, setSessions] = useState<WorkoutSession[]>(workoutSessions.getSessions());
+
+  useEffect(() => workoutSessions.subscribe(setSessions), []);
+
+  return sessions;
+}
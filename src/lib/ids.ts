@@ -0,0 +1,25 @@
+export function createId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+
+  // RFC 4122 version 4 layout for browsers without crypto.randomUUID (non-secure contexts)
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+// Deterministic id for records written before ids existed, so every device
+// derives the same id from the same content
+export function legacyId(...parts: string[]) {
+  const input = parts.join("|");
+  let h1 = 5381;
+  let h2 = 52711;
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 33);
+    h2 = Math.imul(h2 ^ code, 31);
+  }
+  return `legacy-${(h1 >>> 0).toString(36)}${(h2 >>> 0).toString(36)}`;
+}
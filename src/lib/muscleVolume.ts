@@ -0,0 +1,112 @@
+import { addWeeks, parseISO, startOfWeek } from "date-fns";
+import { findExerciseById, type WorkoutLog, type WorkoutSet } from "@/data/exercises";
+import {
+  MUSCLE_GROUPS,
+  defaultAnatomy,
+  getMuscleGroupContributions,
+  type MuscleGroup,
+} from "@/data/exerciseTaxonomy";
+import { createPreference } from "@/lib/preferences";
+import { WEEK_OPTIONS } from "@/lib/timeRanges";
+import { setWeightIn, type WeightUnit } from "@/lib/units";
+
+export interface VolumeTarget {
+  min: number; // hard sets per week
+  max: number;
+}
+
+export type VolumeStatus = "none" | "under" | "within" | "over";
+
+export interface WeeklyMuscleVolume {
+  weekStart: Date;
+  sets: Record<MuscleGroup, number>;
+  tonnage: Record<MuscleGroup, number>; // weight × reps in the requested unit
+}
+
+export const VOLUME_STATUS_LABELS: Record<VolumeStatus, string> = {
+  none: "Not trained",
+  under: "Below target",
+  within: "On target",
+  over: "Above target",
+};
+
+export const DEFAULT_VOLUME_TARGETS: Record<MuscleGroup, VolumeTarget> = {
+  chest: { min: 10, max: 20 },
+  biceps: { min: 8, max: 14 },
+  triceps: { min: 6, max: 14 },
+  back: { min: 10, max: 20 },
+  shoulders: { min: 8, max: 16 },
+  legs: { min: 12, max: 20 },
+  abs: { min: 6, max: 16 },
+};
+
+export const volumeTargetsPreference = createPreference<Record<MuscleGroup, VolumeTarget>>(
+  "muscle_volume_targets",
+  DEFAULT_VOLUME_TARGETS,
+  (stored) => {
+    try {
+      const targets = JSON.parse(stored);
+      return MUSCLE_GROUPS.every((group) => typeof targets?.[group]?.min === "number" && typeof targets[group].max === "number")
+        ? targets
+        : null;
+    } catch {
+      return null;
+    }
+  },
+  (targets) => JSON.stringify(targets)
+);
+
+// Logs of exercises no longer in the catalog fall back to their muscle group's usual anatomy
+const anatomyOf = (log: WorkoutLog) => findExerciseById(log.exerciseId) || defaultAnatomy(log.muscleGroup);
+
+// Body parts a log trained as a primary mover
+export const getPrimaryMuscleGroups = (log: WorkoutLog): MuscleGroup[] =>
+  getMuscleGroupContributions(anatomyOf(log)).filter(({ share }) => share === 1).map(({ muscleGroup }) => muscleGroup);
+
+const emptyMuscleGroupTotals = () =>
+  Object.fromEntries(MUSCLE_GROUPS.map((group) => [group, 0])) as Record<MuscleGroup, number>;
+
+// Sums a value over every non-warm-up set, split between muscle groups by their share of the exercise
+function totalByMuscleGroup(logs: WorkoutLog[], valueOf: (set: WorkoutSet) => number) {
+  const totals = emptyMuscleGroupTotals();
+  logs.forEach((log) => {
+    const value = log.sets.filter((set) => set.type !== "warmup").reduce((sum, set) => sum + valueOf(set), 0);
+    getMuscleGroupContributions(anatomyOf(log)).forEach(({ muscleGroup, share }) => {
+      totals[muscleGroup] += value * share;
+    });
+  });
+  return totals;
+}
+
+/**
+ * Hard sets per muscle group: every set except warm-ups, credited in full to
+ * the groups an exercise works primarily and in part to secondary ones.
+ */
+export const getMuscleGroupSets = (logs: WorkoutLog[]) => totalByMuscleGroup(logs, () => 1);
+
+export const getMuscleGroupTonnage = (logs: WorkoutLog[], unit: WeightUnit) =>
+  totalByMuscleGroup(logs, (set) => setWeightIn(set, unit) * set.reps);
+
+/**
+ * Sets and tonnage per muscle group for each of the `weeks` calendar weeks
+ * ending with the one containing `end`, oldest first. Logs are bucketed by
+ * their local date.
+ */
+export function getWeeklyMuscleVolume(logs: WorkoutLog[], unit: WeightUnit, weeks: number, end = new Date()): WeeklyMuscleVolume[] {
+  const lastWeek = startOfWeek(end, WEEK_OPTIONS);
+  return Array.from({ length: weeks }, (_, index) => {
+    const weekStart = addWeeks(lastWeek, index - weeks + 1);
+    const weekEnd = addWeeks(weekStart, 1);
+    const weekLogs = logs.filter((log) => {
+      const date = parseISO(log.date);
+      return date >= weekStart && date < weekEnd;
+    });
+    return { weekStart, sets: getMuscleGroupSets(weekLogs), tonnage: getMuscleGroupTonnage(weekLogs, unit) };
+  });
+}
+
+export function getVolumeStatus(sets: number, target: VolumeTarget): VolumeStatus {
+  if (sets === 0) return "none";
+  if (sets < target.min) return "under";
+  return sets > target.max ? "over" : "within";
+}
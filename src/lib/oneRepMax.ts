@@ -0,0 +1,47 @@
+import { createPreference } from "@/lib/preferences";
+
+export type OneRepMaxFormula = "epley" | "brzycki" | "lombardi";
+
+interface FormulaDefinition {
+  label: string;
+  estimate: (weight: number, reps: number) => number;
+  // Weight that could be lifted for `reps` given a one-rep max
+  weightFor: (oneRepMax: number, reps: number) => number;
+}
+
+export const ONE_REP_MAX_FORMULAS: Record<OneRepMaxFormula, FormulaDefinition> = {
+  epley: {
+    label: "Epley",
+    estimate: (weight, reps) => weight * (1 + reps / 30),
+    weightFor: (oneRepMax, reps) => oneRepMax / (1 + reps / 30),
+  },
+  brzycki: {
+    label: "Brzycki",
+    // The formula breaks down past 36 reps, so cap there
+    estimate: (weight, reps) => weight * 36 / (37 - Math.min(reps, 36)),
+    weightFor: (oneRepMax, reps) => oneRepMax * (37 - Math.min(reps, 36)) / 36,
+  },
+  lombardi: {
+    label: "Lombardi",
+    estimate: (weight, reps) => weight * reps ** 0.1,
+    weightFor: (oneRepMax, reps) => oneRepMax / reps ** 0.1,
+  },
+};
+
+export const oneRepMaxFormulaPreference = createPreference<OneRepMaxFormula>(
+  "one_rep_max_formula",
+  "epley",
+  (stored) => (stored in ONE_REP_MAX_FORMULAS ? (stored as OneRepMaxFormula) : null)
+);
+
+// A single rep is its own max whatever the formula
+export function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula = "epley") {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1) return weight;
+  return ONE_REP_MAX_FORMULAS[formula].estimate(weight, reps);
+}
+
+export function weightForReps(oneRepMax: number, reps: number, formula: OneRepMaxFormula = "epley") {
+  if (reps <= 1) return oneRepMax;
+  return ONE_REP_MAX_FORMULAS[formula].weightFor(oneRepMax, reps);
+}
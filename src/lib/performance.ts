@@ -0,0 +1,15 @@
+import type { WorkoutSet } from "@/data/exercises";
+import { setWeightIn } from "@/lib/units";
+
+type ComparableSet = Pick<WorkoutSet, "reps" | "weight" | "unit">;
+
+// More weight, or the same weight for more reps, beats the previous set
+export function beatsSet(current: ComparableSet, previous: ComparableSet) {
+  if (current.reps <= 0) return false;
+
+  const weight = setWeightIn(current, "kg");
+  const previousWeight = setWeightIn(previous, "kg");
+  // Allow for rounding when the two sets were logged in different units
+  if (Math.abs(weight - previousWeight) < 0.1) return current.reps > previous.reps;
+  return weight > previousWeight;
+}
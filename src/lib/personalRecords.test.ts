@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectPersonalRecords } from '@/lib/personalRecords';
+import { GoogleSheetsService } from '@/services/googleSheets';
+import { parseWorkoutSheet } from '@/services/sheetParser';
+import { GoogleSheetsWorkoutRepository, InMemoryWorkoutRepository } from '@/services/workoutRepository';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+// Bench press logged on another device: 3 × 5 at 100kg
+const SHEET_VALUES = [
+  ['Date', 'Exercise Name', 'Muscle Group', 'Set Number', 'Reps', 'Weight', 'Unit', 'Log ID', 'Exercise ID'],
+  ['2024-03-01T10:00:00.000Z', 'Barbell Bench Press', 'chest', '1', '5', '100', 'kg', 'sheet-log', 'chest-4'],
+  ['2024-03-01T10:00:00.000Z', 'Barbell Bench Press', 'chest', '2', '5', '100', 'kg', 'sheet-log', 'chest-4'],
+  ['2024-03-01T10:00:00.000Z', 'Barbell Bench Press', 'chest', '3', '5', '100', 'kg', 'sheet-log', 'chest-4'],
+];
+
+const lighterSession = makeWorkoutLog({ id: 'today', sets: [{ reps: 5, weight: 80, unit: 'kg' }] });
+
+describe('detectPersonalRecords', () => {
+  it('treats the first log of an exercise as the baseline', () => {
+    expect(detectPersonalRecords(lighterSession, [])).toEqual([]);
+  });
+
+  it('compares against history read from the sheet', () => {
+    const { logs } = parseWorkoutSheet(SHEET_VALUES);
+
+    expect(detectPersonalRecords(lighterSession, logs)).toEqual([]);
+
+    const heavier = makeWorkoutLog({ id: 'heavy', sets: [{ reps: 5, weight: 105, unit: 'kg' }] });
+    expect(detectPersonalRecords(heavier, logs).map(record => record.type)).toEqual(expect.arrayContaining(['weight', 'e1rm']));
+  });
+
+  it('converts sets logged in pounds before comparing', () => {
+    const history = [makeWorkoutLog({ id: 'old', sets: [{ reps: 5, weight: 225, unit: 'lb' }] })];
+    const session = makeWorkoutLog({ id: 'new', sets: [{ reps: 5, weight: 100, unit: 'kg' }] });
+
+    expect(detectPersonalRecords(session, history)).toEqual([]);
+  });
+});
+
+describe('personal records with a sheet on a fresh device', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.gapi = {};
+  });
+
+  it('finds sheet history in the local copy once the sheet was read', async () => {
+    const local = new InMemoryWorkoutRepository();
+    const service = new GoogleSheetsService({ apiKey: 'key', spreadsheetId: 'sheet', sheetName: 'Workouts' }, local);
+    vi.spyOn(service, 'getSheetWorkouts').mockResolvedValue(parseWorkoutSheet(SHEET_VALUES).logs);
+
+    await new GoogleSheetsWorkoutRepository(service, local).list();
+    const history = await local.query({ exerciseId: 'chest-4' });
+
+    expect(history.map(log => log.id)).toEqual(['sheet-log']);
+    expect(detectPersonalRecords(lighterSession, history)).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import type { WorkoutLog, WorkoutSet } from "@/data/exercises";
+import { estimateOneRepMax, type OneRepMaxFormula } from "@/lib/oneRepMax";
+import { convertWeight, formatWeight, setWeightIn, type WeightUnit } from "@/lib/units";
+
+export type PersonalRecordType = "weight" | "e1rm" | "repsAtWeight" | "volume";
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  weight: "Heaviest weight",
+  e1rm: "Best estimated 1RM",
+  repsAtWeight: "Most reps at weight",
+  volume: "Highest session volume",
+};
+
+export interface PersonalRecord {
+  type: PersonalRecordType;
+  exerciseId: string;
+  exerciseName: string;
+  value: number; // kilograms for weight, e1rm and volume; reps for repsAtWeight
+  weight?: number; // kilograms, the weight a repsAtWeight record was set at
+  previous?: number;
+  logId: string;
+  date: string;
+}
+
+// Weights logged in different units rarely match exactly after conversion
+const SAME_WEIGHT_KG = 0.1;
+
+interface LogBests {
+  weight: number;
+  e1rm: number;
+  volume: number;
+  repsByWeight: Map<number, number>;
+}
+
+const workingSets = (log: WorkoutLog) => log.sets.filter((set) => set.type !== "warmup" && set.reps > 0);
+const kg = (set: WorkoutSet) => setWeightIn(set, "kg");
+const weightKey = (weight: number) => Math.round(weight / SAME_WEIGHT_KG) * SAME_WEIGHT_KG;
+
+function bestsOf(log: WorkoutLog, formula: OneRepMaxFormula): LogBests {
+  const sets = workingSets(log);
+  const repsByWeight = new Map<number, number>();
+  sets.forEach((set) => {
+    const key = weightKey(kg(set));
+    repsByWeight.set(key, Math.max(repsByWeight.get(key) || 0, set.reps));
+  });
+
+  return {
+    weight: Math.max(0, ...sets.map(kg)),
+    e1rm: Math.max(0, ...sets.map((set) => estimateOneRepMax(kg(set), set.reps, formula))),
+    volume: sets.reduce((sum, set) => sum + kg(set) * set.reps, 0),
+    repsByWeight,
+  };
+}
+
+function mergeBests(into: LogBests, from: LogBests) {
+  into.weight = Math.max(into.weight, from.weight);
+  into.e1rm = Math.max(into.e1rm, from.e1rm);
+  into.volume = Math.max(into.volume, from.volume);
+  from.repsByWeight.forEach((reps, weight) => {
+    into.repsByWeight.set(weight, Math.max(into.repsByWeight.get(weight) || 0, reps));
+  });
+}
+
+function compare(log: WorkoutLog, current: LogBests, previous: LogBests): PersonalRecord[] {
+  const base = { exerciseId: log.exerciseId, exerciseName: log.exerciseName, logId: log.id, date: log.date };
+  const records: PersonalRecord[] = [];
+
+  if (current.weight > 0 && current.weight > previous.weight + SAME_WEIGHT_KG / 2) {
+    records.push({ ...base, type: "weight", value: current.weight, previous: previous.weight });
+  }
+  if (current.e1rm > 0 && current.e1rm > previous.e1rm + SAME_WEIGHT_KG / 2) {
+    records.push({ ...base, type: "e1rm", value: current.e1rm, previous: previous.e1rm });
+  }
+  if (current.volume > 0 && current.volume > previous.volume) {
+    records.push({ ...base, type: "volume", value: current.volume, previous: previous.volume });
+  }
+  // Only weights lifted before count, so a brand new weight is a weight record instead
+  current.repsByWeight.forEach((reps, weight) => {
+    const previousReps = previous.repsByWeight.get(weight);
+    if (previousReps !== undefined && reps > previousReps) {
+      records.push({ ...base, type: "repsAtWeight", value: reps, weight, previous: previousReps });
+    }
+  });
+
+  return records;
+}
+
+export function formatRecordValue(record: PersonalRecord, unit: WeightUnit) {
+  if (record.type === "repsAtWeight") {
+    return `${record.value} reps @ ${formatWeight(convertWeight(record.weight, "kg", unit), unit)}`;
+  }
+  const value = convertWeight(record.value, "kg", unit);
+  return record.type === "volume" ? `${Math.round(value).toLocaleString()}${unit}` : formatWeight(value, unit);
+}
+
+const emptyBests = (): LogBests => ({ weight: 0, e1rm: 0, volume: 0, repsByWeight: new Map() });
+
+/**
+ * Records `log` sets against earlier logs of the same exercise. The first
+ * log of an exercise only sets the baseline and is never a record.
+ */
+export function detectPersonalRecords(log: WorkoutLog, history: WorkoutLog[], formula: OneRepMaxFormula = "epley") {
+  const earlier = history.filter((other) => other.exerciseId === log.exerciseId && other.id !== log.id);
+  if (earlier.length === 0) return [];
+
+  const previous = emptyBests();
+  earlier.forEach((other) => mergeBests(previous, bestsOf(other, formula)));
+  return compare(log, bestsOf(log, formula), previous);
+}
+
+/**
+ * Every record ever set, oldest first, found by replaying the logs in date
+ * order. The last record of each type and exercise is the current one.
+ */
+export function getRecordHistory(logs: WorkoutLog[], formula: OneRepMaxFormula = "epley") {
+  const bestsByExercise = new Map<string, LogBests>();
+  const records: PersonalRecord[] = [];
+
+  logs
+    .slice()
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach((log) => {
+      const current = bestsOf(log, formula);
+      const previous = bestsByExercise.get(log.exerciseId);
+      if (previous) {
+        records.push(...compare(log, current, previous));
+        mergeBests(previous, current);
+      } else {
+        bestsByExercise.set(log.exerciseId, current);
+      }
+    });
+
+  return records;
+}
+
+/**
+ * Current best of every record type per exercise with the log that set it,
+ * including bests from an exercise's first log.
+ */
+export function getCurrentRecords(logs: WorkoutLog[], formula: OneRepMaxFormula = "epley") {
+  const records = new Map<string, PersonalRecord>();
+  const keep = (key: string, record: PersonalRecord) => {
+    const existing = records.get(key);
+    if (record.value > 0 && (!existing || record.value > existing.value)) records.set(key, record);
+  };
+
+  logs
+    .slice()
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach((log) => {
+      const bests = bestsOf(log, formula);
+      const base = { exerciseId: log.exerciseId, exerciseName: log.exerciseName, logId: log.id, date: log.date };
+      keep(`${log.exerciseId}:weight`, { ...base, type: "weight", value: bests.weight });
+      keep(`${log.exerciseId}:e1rm`, { ...base, type: "e1rm", value: bests.e1rm });
+      keep(`${log.exerciseId}:volume`, { ...base, type: "volume", value: bests.volume });
+      bests.repsByWeight.forEach((reps, weight) => {
+        keep(`${log.exerciseId}:reps:${weight}`, { ...base, type: "repsAtWeight", value: reps, weight });
+      });
+    });
+
+  return Array.from(records.values());
+}
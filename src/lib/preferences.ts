@@ -0,0 +1,45 @@
+export interface Preference<T> {
+  get(): T;
+  set(value: T): void;
+  subscribe(cb: (value: T) => void): () => void;
+}
+
+/**
+ * A single user setting kept in localStorage. `parse` turns the stored
+ * string back into a value and returns null for anything unrecognised.
+ */
+export function createPreference<T>(
+  storageKey: string,
+  defaultValue: T,
+  parse: (stored: string) => T | null,
+  serialize: (value: T) => string = String
+): Preference<T> {
+  let value = defaultValue;
+  try {
+    value = parse(localStorage.getItem(storageKey) || "") ?? defaultValue;
+  } catch {
+    value = defaultValue;
+  }
+
+  const listeners = new Set<(value: T) => void>();
+
+  return {
+    get() {
+      return value;
+    },
+    set(next: T) {
+      value = next;
+      try {
+        localStorage.setItem(storageKey, serialize(next));
+      } catch (e) {
+        // ignore storage errors
+      }
+      listeners.forEach((cb) => cb(next));
+    },
+    subscribe(cb: (value: T) => void) {
+      listeners.add(cb);
+      const unsubscribe = () => { listeners.delete(cb); };
+      return unsubscribe;
+    },
+  };
+}
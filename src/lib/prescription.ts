@@ -0,0 +1,35 @@
+import type { Exercise } from "@/data/exercises";
+
+export interface Prescription {
+  sets: number;
+  minReps: number;
+  maxReps: number;
+  measure: "reps" | "seconds";
+  perSide: boolean; // "each leg", "each arm", "each side", "each direction"
+}
+
+const DEFAULT_SETS = 3;
+const DEFAULT_REPS = 10;
+
+/**
+ * Reads the catalog's free-text prescription, e.g. sets "3" and reps
+ * "8-12", "30 seconds" or "10-12 each leg". Unreadable values fall back to
+ * 3 × 10.
+ */
+export function parsePrescription(exercise: Pick<Exercise, "sets" | "reps">): Prescription {
+  const [minSets] = (exercise.sets.match(/\d+/g) || []).map(Number);
+  const [minReps, maxReps = minReps] = (exercise.reps.match(/\d+/g) || []).map(Number);
+
+  return {
+    sets: minSets || DEFAULT_SETS,
+    minReps: minReps || DEFAULT_REPS,
+    maxReps: maxReps || DEFAULT_REPS,
+    measure: /sec/i.test(exercise.reps) ? "seconds" : "reps",
+    perSide: /\beach\b/i.test(exercise.reps),
+  };
+}
+
+export function formatTarget({ minReps, maxReps, measure }: Prescription) {
+  const range = minReps === maxReps ? `${minReps}` : `${minReps}-${maxReps}`;
+  return measure === "seconds" ? `${range}s` : `${range} reps`;
+}
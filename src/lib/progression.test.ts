@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkoutSet } from '@/data/exercises';
+import { recommendNextSession, type ProgressionStrategy } from '@/lib/progression';
+import { PLATE_INCREMENT } from '@/lib/units';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+const exercise = { sets: '3', reps: '8-12' };
+
+const makeLog = (date: string, sets: Omit<WorkoutSet, 'id'>[]) => makeWorkoutLog({ date, sets });
+
+const isOnPlates = (weight: number, increment: number) =>
+  Math.abs(weight / increment - Math.round(weight / increment)) < 1e-9;
+
+describe('recommendNextSession', () => {
+  it('adds weight once every set reaches the top of the range', () => {
+    const log = makeLog('2024-03-04T10:00:00.000Z', Array(3).fill({ reps: 12, weight: 60, unit: 'kg' }));
+    const recommendation = recommendNextSession(exercise, [log], 'double', 'kg');
+
+    expect(recommendation.weight).toBe(62.5);
+    expect(recommendation.reps).toBe(8);
+  });
+
+  it.each<ProgressionStrategy>(['double', 'linear', 'percentage'])(
+    '%s recommends loadable weights for history logged in the other unit',
+    (strategy) => {
+      const logs = [
+        makeLog('2024-03-04T10:00:00.000Z', Array(3).fill({ reps: 12, weight: 100, unit: 'kg' })),
+        makeLog('2024-03-01T10:00:00.000Z', Array(3).fill({ reps: 7, weight: 100, unit: 'kg' })),
+      ];
+      const recommendation = recommendNextSession(exercise, logs, strategy, 'lb');
+
+      expect(recommendation.weight).toBeGreaterThan(0);
+      expect(isOnPlates(recommendation.weight, PLATE_INCREMENT.lb)).toBe(true);
+    }
+  );
+
+  it('keeps a converted weight on plates when repeating it', () => {
+    const log = makeLog('2024-03-04T10:00:00.000Z', Array(3).fill({ reps: 9, weight: 100, unit: 'kg' }));
+
+    expect(recommendNextSession(exercise, [log], 'double', 'lb').weight).toBe(220);
+  });
+
+  it('does not turn a light load into a bodyweight recommendation', () => {
+    const log = makeLog('2024-03-04T10:00:00.000Z', Array(3).fill({ reps: 9, weight: 1, unit: 'kg' }));
+
+    expect(recommendNextSession(exercise, [log], 'double', 'kg').weight).toBe(PLATE_INCREMENT.kg);
+  });
+});
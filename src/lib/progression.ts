@@ -0,0 +1,200 @@
+import type { Exercise, WorkoutLog, WorkoutSet } from "@/data/exercises";
+import { estimateOneRepMax, weightForReps, type OneRepMaxFormula } from "@/lib/oneRepMax";
+import { createPreference } from "@/lib/preferences";
+import { parsePrescription, type Prescription } from "@/lib/prescription";
+import { PLATE_INCREMENT, formatWeight, roundToPlate, setWeightIn, type WeightUnit } from "@/lib/units";
+
+export type ProgressionStrategy = "double" | "linear" | "percentage";
+
+export const PROGRESSION_STRATEGIES: Record<ProgressionStrategy, { label: string; description: string }> = {
+  double: {
+    label: "Double progression",
+    description: "Add reps until every set reaches the top of the range, then add weight",
+  },
+  linear: {
+    label: "Linear",
+    description: "Add weight every session the bottom of the range is hit on all sets",
+  },
+  percentage: {
+    label: "Percentage based",
+    description: "Pick the weight from your estimated one-rep max",
+  },
+};
+
+export interface Recommendation {
+  strategy: ProgressionStrategy;
+  sets: number;
+  reps: number;
+  weight: number; // 0 for bodyweight or when there is no history
+  unit: WeightUnit;
+  reason: string;
+  basedOn?: WorkoutLog;
+}
+
+export const progressionStrategyPreference = createPreference<ProgressionStrategy>(
+  "progression_strategy",
+  "double",
+  (stored) => (stored in PROGRESSION_STRATEGIES ? (stored as ProgressionStrategy) : null)
+);
+
+// Deload after this many sessions in a row that missed the target at the same weight
+const LINEAR_STALL_SESSIONS = 2;
+const DELOAD_FACTOR = 0.9;
+// Reps kept in reserve when the weight comes from an estimated max
+const PERCENTAGE_RESERVE_REPS = 2;
+const PERCENTAGE_LOOKBACK_LOGS = 5;
+
+interface SessionTop {
+  log: WorkoutLog;
+  weight: number; // heaviest working weight in the requested unit, rounded to plates
+  sets: WorkoutSet[]; // working sets at that weight
+  minReps: number;
+}
+
+const workingSets = (log: WorkoutLog) => log.sets.filter((set) => set.type !== "warmup");
+
+const topOf = (log: WorkoutLog, unit: WeightUnit): SessionTop | null => {
+  const sets = workingSets(log);
+  if (sets.length === 0) return null;
+
+  const heaviest = Math.max(...sets.map((set) => setWeightIn(set, unit)));
+  const atTop = sets.filter((set) => Math.abs(setWeightIn(set, unit) - heaviest) < 0.1);
+  // Sets logged in the other unit convert to weights no bar can be loaded with. Light loads never round down to bodyweight.
+  const weight = heaviest > 0 ? Math.max(roundToPlate(heaviest, unit), PLATE_INCREMENT[unit]) : 0;
+  return { log, weight, sets: atTop, minReps: Math.min(...atTop.map((set) => set.reps)) };
+};
+
+const measureLabel = (prescription: Prescription, reps: number) =>
+  prescription.measure === "seconds" ? `${reps}s` : `${reps} reps`;
+
+function withoutWeight(prescription: Prescription, top: SessionTop, strategy: ProgressionStrategy, unit: WeightUnit): Recommendation {
+  const step = prescription.measure === "seconds" ? 5 : 1;
+  const reps = top.minReps >= prescription.maxReps ? top.minReps + step : Math.max(prescription.minReps, top.minReps + step);
+  return {
+    strategy,
+    sets: prescription.sets,
+    reps,
+    weight: 0,
+    unit,
+    basedOn: top.log,
+    reason: top.minReps >= prescription.maxReps
+      ? `You reached ${measureLabel(prescription, top.minReps)} on every set without added weight. Keep pushing the count or add a small load.`
+      : `Bodyweight movement: aim for ${measureLabel(prescription, reps)} on every set, one more than your weakest set last time.`,
+  };
+}
+
+function doubleProgression(prescription: Prescription, top: SessionTop, unit: WeightUnit, increment: number): Recommendation {
+  const base = { strategy: "double" as const, sets: prescription.sets, unit, basedOn: top.log };
+  const allSetsAtTop = top.sets.length >= prescription.sets && top.minReps >= prescription.maxReps;
+
+  if (allSetsAtTop) {
+    const weight = roundToPlate(top.weight + increment, unit);
+    return {
+      ...base,
+      reps: prescription.minReps,
+      weight,
+      reason: `You hit ${prescription.maxReps}+ reps on all ${top.sets.length} sets at ${formatWeight(top.weight, unit)}, the top of the ${prescription.minReps}-${prescription.maxReps} range. Add ${formatWeight(increment, unit)} and start back at ${prescription.minReps} reps.`,
+    };
+  }
+
+  const reps = Math.min(prescription.maxReps, Math.max(prescription.minReps, top.minReps + 1));
+  return {
+    ...base,
+    reps,
+    weight: roundToPlate(top.weight, unit),
+    reason: `Stay at ${formatWeight(top.weight, unit)} and aim for ${reps} reps per set. Add weight once every set reaches ${prescription.maxReps} reps.`,
+  };
+}
+
+function linearProgression(prescription: Prescription, tops: SessionTop[], unit: WeightUnit, increment: number): Recommendation {
+  const [top] = tops;
+  const base = { strategy: "linear" as const, sets: prescription.sets, reps: prescription.minReps, unit, basedOn: top.log };
+  const hitTarget = (session: SessionTop) => session.sets.length >= prescription.sets && session.minReps >= prescription.minReps;
+
+  if (hitTarget(top)) {
+    return {
+      ...base,
+      weight: roundToPlate(top.weight + increment, unit),
+      reason: `All ${prescription.sets} sets reached ${prescription.minReps} reps at ${formatWeight(top.weight, unit)}. Add ${formatWeight(increment, unit)} this session.`,
+    };
+  }
+
+  const stalled = tops.slice(0, LINEAR_STALL_SESSIONS);
+  if (stalled.length === LINEAR_STALL_SESSIONS && stalled.every((session) => !hitTarget(session) && Math.abs(session.weight - top.weight) < 0.1)) {
+    const weight = roundToPlate(top.weight * DELOAD_FACTOR, unit);
+    return {
+      ...base,
+      weight,
+      reason: `You missed ${prescription.sets} × ${prescription.minReps} at ${formatWeight(top.weight, unit)} in ${LINEAR_STALL_SESSIONS} sessions in a row. Deload to ${formatWeight(weight, unit)} and build back up.`,
+    };
+  }
+
+  return {
+    ...base,
+    weight: roundToPlate(top.weight, unit),
+    reason: `Last time the weakest set was ${top.minReps} reps at ${formatWeight(top.weight, unit)}. Repeat the weight until all sets reach ${prescription.minReps} reps.`,
+  };
+}
+
+function percentageBased(prescription: Prescription, tops: SessionTop[], unit: WeightUnit, formula: OneRepMaxFormula): Recommendation {
+  const candidates = tops.slice(0, PERCENTAGE_LOOKBACK_LOGS).flatMap((top) =>
+    workingSets(top.log).map((set) => ({ set, top, oneRepMax: estimateOneRepMax(setWeightIn(set, unit), set.reps, formula) }))
+  );
+  const best = candidates.reduce((a, b) => (b.oneRepMax > a.oneRepMax ? b : a));
+  const reps = Math.round((prescription.minReps + prescription.maxReps) / 2);
+  const weight = roundToPlate(weightForReps(best.oneRepMax, reps + PERCENTAGE_RESERVE_REPS, formula), unit);
+  const percent = Math.round((weight / best.oneRepMax) * 100);
+
+  return {
+    strategy: "percentage",
+    sets: prescription.sets,
+    reps,
+    weight,
+    unit,
+    basedOn: best.top.log,
+    reason: `Estimated one-rep max is ${formatWeight(best.oneRepMax, unit)} (from ${best.set.reps} × ${formatWeight(setWeightIn(best.set, unit), unit)}). ${reps} reps with about ${PERCENTAGE_RESERVE_REPS} in reserve is ${percent}%, or ${formatWeight(weight, unit)}.`,
+  };
+}
+
+/**
+ * Suggests sets, reps and weight for the next session of an exercise from
+ * its prescribed range and recent logs. Warm-up sets are ignored.
+ */
+export function recommendNextSession(
+  exercise: Pick<Exercise, "sets" | "reps">,
+  logs: WorkoutLog[],
+  strategy: ProgressionStrategy,
+  unit: WeightUnit,
+  formula: OneRepMaxFormula = "epley"
+): Recommendation {
+  const prescription = parsePrescription(exercise);
+  const tops = logs
+    .slice()
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .map((log) => topOf(log, unit))
+    .filter(Boolean);
+
+  if (tops.length === 0) {
+    return {
+      strategy,
+      sets: prescription.sets,
+      reps: prescription.minReps,
+      weight: 0,
+      unit,
+      reason: `No history yet. Pick a weight you can move for ${measureLabel(prescription, prescription.maxReps)} with good form and do ${prescription.sets} sets of ${measureLabel(prescription, prescription.minReps)}.`,
+    };
+  }
+
+  const [top] = tops;
+  if (top.weight === 0) return withoutWeight(prescription, top, strategy, unit);
+
+  const increment = PLATE_INCREMENT[unit];
+  switch (strategy) {
+    case "linear":
+      return linearProgression(prescription, tops, unit, increment);
+    case "percentage":
+      return percentageBased(prescription, tops, unit, formula);
+    default:
+      return doubleProgression(prescription, top, unit, increment);
+  }
+}
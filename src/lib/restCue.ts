@@ -0,0 +1,39 @@
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so create the context on the first tap
+export function primeRestCue() {
+  if (audioContext || typeof window === "undefined" || !window.AudioContext) return;
+  try {
+    audioContext = new AudioContext();
+  } catch {
+    audioContext = null;
+  }
+}
+
+function beep(startAt: number, frequency: number) {
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(0.2, startAt);
+  gain.gain.exponentialRampToValueAtTime(0.001, startAt + 0.25);
+  oscillator.connect(gain).connect(audioContext.destination);
+  oscillator.start(startAt);
+  oscillator.stop(startAt + 0.25);
+}
+
+// Three short beeps and a vibration when rest is over; silently skipped where unsupported
+export function playRestCue() {
+  if (typeof navigator !== "undefined" && typeof navigator.vibrate === "function") {
+    navigator.vibrate([200, 100, 200]);
+  }
+
+  if (!audioContext) return;
+  void audioContext.resume().then(() => {
+    const now = audioContext.currentTime;
+    beep(now, 660);
+    beep(now + 0.35, 660);
+    beep(now + 0.7, 880);
+  }).catch(() => {
+    // audio blocked by the browser
+  });
+}
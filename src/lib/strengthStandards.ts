@@ -0,0 +1,80 @@
+import { createPreference } from "@/lib/preferences";
+import { convertWeight, type WeightUnit } from "@/lib/units";
+
+export type Sex = "male" | "female";
+export type StrengthLevel = "beginner" | "novice" | "intermediate" | "advanced" | "elite";
+
+export interface StrengthProfile {
+  bodyweight: number; // 0 until the user enters it
+  unit: WeightUnit;
+  sex: Sex;
+}
+
+export interface StrengthBand {
+  level: StrengthLevel;
+  label: string;
+  from: number; // one-rep max in the requested unit
+  to: number | null; // null for the top band
+}
+
+export const STRENGTH_LEVELS: StrengthLevel[] = ["beginner", "novice", "intermediate", "advanced", "elite"];
+
+export const STRENGTH_LEVEL_LABELS: Record<StrengthLevel, string> = {
+  beginner: "Beginner",
+  novice: "Novice",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+  elite: "Elite",
+};
+
+// One-rep max as a multiple of bodyweight at the start of each level.
+// Dumbbell lifts are per hand. Only loaded lifts from the catalog are listed; the
+// back, shoulder and leg catalog exercises are all bodyweight, so they have none.
+const STANDARDS: Record<string, Record<Sex, number[]>> = {
+  "chest-1": { male: [0.5, 0.75, 1.1, 1.5, 2.0], female: [0.25, 0.5, 0.75, 1.1, 1.5] },
+  "chest-3": { male: [0.2, 0.3, 0.45, 0.6, 0.8], female: [0.1, 0.15, 0.25, 0.35, 0.5] },
+  "chest-4": { male: [0.5, 0.75, 1.0, 1.5, 2.0], female: [0.25, 0.5, 0.75, 1.0, 1.5] },
+  "chest-6": { male: [0.5, 0.75, 1.05, 1.5, 2.0], female: [0.25, 0.5, 0.75, 1.05, 1.45] },
+  "chest-9": { male: [0.4, 0.6, 0.85, 1.2, 1.6], female: [0.2, 0.4, 0.6, 0.85, 1.2] },
+};
+
+export const strengthProfilePreference = createPreference<StrengthProfile>(
+  "strength_profile",
+  { bodyweight: 0, unit: "kg", sex: "male" },
+  (stored) => {
+    try {
+      const profile = JSON.parse(stored);
+      return typeof profile?.bodyweight === "number" ? profile : null;
+    } catch {
+      return null;
+    }
+  },
+  (profile) => JSON.stringify(profile)
+);
+
+export function hasStrengthStandard(exerciseId: string) {
+  return exerciseId in STANDARDS;
+}
+
+/**
+ * One-rep max ranges for each strength level of an exercise, scaled to the
+ * lifter's bodyweight. Empty when the exercise has no standard or no
+ * bodyweight was entered.
+ */
+export function getStrengthBands(exerciseId: string, profile: StrengthProfile, unit: WeightUnit): StrengthBand[] {
+  const ratios = STANDARDS[exerciseId]?.[profile.sex];
+  if (!ratios || profile.bodyweight <= 0) return [];
+
+  const bodyweight = convertWeight(profile.bodyweight, profile.unit, unit);
+  return STRENGTH_LEVELS.map((level, index) => ({
+    level,
+    label: STRENGTH_LEVEL_LABELS[level],
+    from: Math.round(ratios[index] * bodyweight * 10) / 10,
+    to: index + 1 < ratios.length ? Math.round(ratios[index + 1] * bodyweight * 10) / 10 : null,
+  }));
+}
+
+// Highest level reached, or null when below the beginner threshold
+export function getStrengthLevel(oneRepMax: number, bands: StrengthBand[]) {
+  return bands.filter((band) => oneRepMax >= band.from).pop() ?? null;
+}
@@ -0,0 +1,47 @@
+import type { Exercise } from "@/data/exercises";
+
+const DIFFICULTY_RANK: Record<Exercise["difficulty"], number> = { beginner: 0, intermediate: 1, professional: 2 };
+
+// How similar a candidate is: shared primary muscles dominate, pattern and mechanics break ties
+function similarity(exercise: Exercise, candidate: Exercise) {
+  const sharedPrimary = candidate.primaryMuscles.filter((muscle) => exercise.primaryMuscles.includes(muscle)).length;
+  if (sharedPrimary === 0) return 0;
+
+  const sharedSecondary = candidate.secondaryMuscles.filter((muscle) => exercise.secondaryMuscles.includes(muscle)).length;
+  return sharedPrimary * 2
+    + (candidate.movementPattern === exercise.movementPattern ? 2 : 0)
+    + (candidate.mechanics === exercise.mechanics ? 1 : 0)
+    + sharedSecondary * 0.5
+    - Math.abs(DIFFICULTY_RANK[candidate.difficulty] - DIFFICULTY_RANK[exercise.difficulty]) * 0.5;
+}
+
+/**
+ * The candidates that best stand in for an exercise, most similar first.
+ * Only exercises sharing at least one primary muscle are considered.
+ */
+export function findSubstitutes(exercise: Exercise, candidates: Exercise[], limit = 3): Exercise[] {
+  return candidates
+    .filter((candidate) => candidate.id !== exercise.id)
+    .map((candidate) => ({ candidate, score: similarity(exercise, candidate) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Whether two exercises are linked in the substitution graph: they share a
+ * primary muscle and movement pattern and are at most one difficulty tier apart.
+ */
+export const isCompatibleSubstitute = (exercise: Exercise, candidate: Exercise) =>
+  candidate.id !== exercise.id
+  && candidate.movementPattern === exercise.movementPattern
+  && candidate.primaryMuscles.some((muscle) => exercise.primaryMuscles.includes(muscle))
+  && Math.abs(DIFFICULTY_RANK[candidate.difficulty] - DIFFICULTY_RANK[exercise.difficulty]) <= 1;
+
+// An exercise's neighbours in the substitution graph, most similar first
+export function getAlternatives(exercise: Exercise, candidates: Exercise[]): Exercise[] {
+  return candidates
+    .filter((candidate) => isCompatibleSubstitute(exercise, candidate))
+    .sort((a, b) => similarity(exercise, b) - similarity(exercise, a));
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { bucketKey, bucketStart, formatBucket, resolveTimeRange } from '@/lib/timeRanges';
+
+// Local dates, as the range pickers produce them
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+describe('resolveTimeRange', () => {
+  it('counts today as one of the last N days across the new year', () => {
+    const window = resolveTimeRange('last7', new Date(2025, 0, 3, 15, 30));
+
+    expect(window).toEqual({ start: day(2024, 12, 28), end: day(2025, 1, 4) });
+  });
+
+  it('runs this week from Monday when it started in December', () => {
+    // Thursday, Jan 2 2025 falls in the week of Monday, Dec 30 2024
+    expect(resolveTimeRange('thisWeek', new Date(2025, 0, 2, 9))).toEqual({ start: day(2024, 12, 30), end: day(2025, 1, 6) });
+  });
+
+  it('covers both picked days of a custom range', () => {
+    const window = resolveTimeRange('custom', new Date(), { from: day(2024, 12, 30), to: day(2025, 1, 2) });
+
+    expect(window).toEqual({ start: day(2024, 12, 30), end: day(2025, 1, 3) });
+  });
+
+  it('orders a custom range whose end was picked before its start', () => {
+    const window = resolveTimeRange('custom', new Date(), { from: day(2025, 1, 2), to: day(2024, 12, 30) });
+
+    expect(window).toEqual({ start: day(2024, 12, 30), end: day(2025, 1, 3) });
+  });
+});
+
+describe('buckets across December and January', () => {
+  const window = { start: day(2024, 12, 16), end: day(2025, 1, 13) };
+
+  it('puts the days of a week spanning the new year in one bucket', () => {
+    const keys = [day(2024, 12, 30), day(2025, 1, 1), day(2025, 1, 5)].map(date => bucketKey(bucketStart(date, 'week')));
+
+    expect(new Set(keys)).toEqual(new Set(['2024-12-30']));
+    expect(bucketKey(bucketStart(day(2025, 1, 6), 'week'))).toBe('2025-01-06');
+  });
+
+  it('splits months at the new year and keeps keys sortable', () => {
+    const keys = [day(2024, 12, 31), day(2025, 1, 1)].map(date => bucketKey(bucketStart(date, 'month')));
+
+    expect(keys).toEqual(['2024-12-01', '2025-01-01']);
+    expect([...keys].reverse().sort()).toEqual(keys);
+  });
+
+  it('labels buckets with their year when the window spans years', () => {
+    expect(formatBucket(day(2024, 12, 30), 'week', window)).toBe('Wk of Dec 30, 2024');
+    expect(formatBucket(day(2025, 1, 1), 'month', window)).toBe('Jan 2025');
+    expect(formatBucket(day(2024, 12, 20), 'day', { start: day(2024, 12, 1), end: day(2025, 1, 1) })).toBe('Dec 20');
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  addDays,
+  addWeeks,
+  format,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from "date-fns";
+
+export type TimeRangePreset = "today" | "thisWeek" | "last7" | "last30" | "last90" | "custom";
+export type Granularity = "day" | "week" | "month";
+
+// Local calendar time, start inclusive and end exclusive
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface CustomRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Weeks run Monday to Sunday everywhere in the app
+export const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export const TIME_RANGE_LABELS: Record<TimeRangePreset, string> = {
+  today: "Today",
+  thisWeek: "This week",
+  last7: "Last 7 days",
+  last30: "Last 30 days",
+  last90: "Last 90 days",
+  custom: "Custom range",
+};
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const LAST_DAYS: Partial<Record<TimeRangePreset, number>> = { last7: 7, last30: 30, last90: 90 };
+
+/**
+ * The calendar window a preset covers at `now`. "Last N days" counts today
+ * as one of them; a custom range covers both picked days in full, in
+ * whichever order they were picked, and a single picked day covers just
+ * that day.
+ */
+export function resolveTimeRange(preset: TimeRangePreset, now = new Date(), custom: CustomRange = {}): DateWindow {
+  const today = startOfDay(now);
+  const tomorrow = addDays(today, 1);
+
+  switch (preset) {
+    case "today":
+      return { start: today, end: tomorrow };
+    case "thisWeek": {
+      const start = startOfWeek(now, WEEK_OPTIONS);
+      return { start, end: addWeeks(start, 1) };
+    }
+    case "custom": {
+      if (!custom.from) return { start: today, end: tomorrow };
+      const days = [custom.from, custom.to || custom.from];
+      return { start: startOfDay(min(days)), end: addDays(startOfDay(max(days)), 1) };
+    }
+    default:
+      return { start: subDays(today, LAST_DAYS[preset] - 1), end: tomorrow };
+  }
+}
+
+// ISO dates are instants, so they land in the local day they happened on
+export const isWithinWindow = (date: string, { start, end }: DateWindow) => {
+  const time = parseISO(date).getTime();
+  return time >= start.getTime() && time < end.getTime();
+};
+
+export function bucketStart(date: Date, granularity: Granularity) {
+  if (granularity === "week") return startOfWeek(date, WEEK_OPTIONS);
+  return granularity === "month" ? startOfMonth(date) : startOfDay(date);
+}
+
+// Sortable key for a bucket, unlike its label
+export const bucketKey = (start: Date) => format(start, "yyyy-MM-dd");
+
+/**
+ * Chart label for a bucket. Windows spanning more than one calendar year
+ * get the year on every label so days and weeks never repeat.
+ */
+export function formatBucket(start: Date, granularity: Granularity, window: DateWindow) {
+  const spansYears = window.start.getFullYear() !== subDays(window.end, 1).getFullYear();
+  if (granularity === "month") return format(start, "MMM yyyy");
+  const day = format(start, spansYears ? "MMM d, yyyy" : "MMM d");
+  return granularity === "week" ? `Wk of ${day}` : day;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getTrainingDays, getTrainingStreaks } from '@/lib/trainingCalendar';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+// Local noon on the given day of March 2024, clear of any time zone's midnight
+const onDay = (date: number) => new Date(2024, 2, date, 12).toISOString();
+const daysTrained = (...dates: number[]) => getTrainingDays(dates.map(date => makeWorkoutLog({ date: onDay(date) })));
+
+const today = new Date(2024, 2, 10, 8);
+
+describe('getTrainingStreaks', () => {
+  it('counts several logs on one day once', () => {
+    expect(getTrainingStreaks(daysTrained(9, 10, 10), today)).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('starts a new run after a rest day', () => {
+    expect(getTrainingStreaks(daysTrained(3, 4, 5, 7, 8), today)).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('keeps a streak ending today or yesterday current', () => {
+    expect(getTrainingStreaks(daysTrained(8, 9, 10), today).current).toBe(3);
+    expect(getTrainingStreaks(daysTrained(7, 8, 9), today).current).toBe(3);
+  });
+
+  it('ends the streak once a whole day passes without training', () => {
+    expect(getTrainingStreaks(daysTrained(6, 7, 8), today)).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('ignores days after today', () => {
+    expect(getTrainingStreaks(daysTrained(9, 12), today)).toEqual({ current: 1, longest: 1 });
+    expect(getTrainingStreaks(daysTrained(11, 12, 13), today)).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('has no streak without training days', () => {
+    expect(getTrainingStreaks([], today)).toEqual({ current: 0, longest: 0 });
+  });
+});
@@ -0,0 +1,71 @@
+import { addWeeks, differenceInCalendarDays, parseISO, startOfDay, startOfWeek } from "date-fns";
+import type { WorkoutLog } from "@/data/exercises";
+import { MUSCLE_GROUPS, type MuscleGroup } from "@/data/exerciseTaxonomy";
+import { getPrimaryMuscleGroups } from "@/lib/muscleVolume";
+import { WEEK_OPTIONS, bucketKey } from "@/lib/timeRanges";
+
+export interface TrainingDay {
+  key: string; // yyyy-MM-dd in local time
+  date: Date;
+  logs: WorkoutLog[];
+  muscleGroups: MuscleGroup[]; // in MUSCLE_GROUPS order
+}
+
+export interface TrainingStreaks {
+  current: number; // consecutive days ending today, or yesterday if today isn't trained yet
+  longest: number;
+}
+
+export interface WeeklyFrequency {
+  thisWeek: number;
+  average: number; // training days per week over the weeks looked at, this one included
+}
+
+// Every local calendar day with at least one log, oldest first
+export function getTrainingDays(logs: WorkoutLog[]): TrainingDay[] {
+  const days = new Map<string, TrainingDay>();
+  logs.forEach((log) => {
+    const date = startOfDay(parseISO(log.date));
+    const key = bucketKey(date);
+    const day = days.get(key) || { key, date, logs: [], muscleGroups: [] };
+    day.logs.push(log);
+    days.set(key, day);
+  });
+
+  return Array.from(days.values())
+    .map((day) => {
+      const hit = new Set(day.logs.flatMap(getPrimaryMuscleGroups));
+      return { ...day, muscleGroups: MUSCLE_GROUPS.filter((group) => hit.has(group)) };
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Runs of consecutive training days. A streak is still current until a
+ * whole day passes without training, so it isn't lost first thing in the morning.
+ * Days after `today`, e.g. logs from a device with a wrong clock, don't count.
+ */
+export function getTrainingStreaks(days: TrainingDay[], today = new Date()): TrainingStreaks {
+  const past = days.filter((day) => differenceInCalendarDays(today, day.date) >= 0);
+  let longest = 0;
+  let run = 0;
+  past.forEach((day, index) => {
+    run = index > 0 && differenceInCalendarDays(day.date, past[index - 1].date) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const last = past[past.length - 1];
+  const current = last && differenceInCalendarDays(today, last.date) <= 1 ? run : 0;
+  return { current, longest };
+}
+
+export function getWeeklyFrequency(days: TrainingDay[], weeks = 4, now = new Date()): WeeklyFrequency {
+  const thisWeekStart = startOfWeek(now, WEEK_OPTIONS);
+  const windowStart = addWeeks(thisWeekStart, 1 - weeks);
+  const inWindow = days.filter((day) => day.date >= windowStart);
+
+  return {
+    thisWeek: inWindow.filter((day) => day.date >= thisWeekStart).length,
+    average: Math.round((inWindow.length / weeks) * 10) / 10,
+  };
+}
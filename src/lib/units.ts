@@ -0,0 +1,38 @@
+import { createPreference } from '@/lib/preferences';
+
+export type WeightUnit = 'kg' | 'lb';
+
+const KG_PER_LB = 0.45359237;
+const STORAGE_KEY = 'weight_unit';
+
+// Smallest jump you can load on a bar with standard plates
+export const PLATE_INCREMENT: Record<WeightUnit, number> = {
+  kg: 2.5,
+  lb: 5,
+};
+
+export const convertWeight = (weight: number, from: WeightUnit, to: WeightUnit) => {
+  if (from === to) return weight;
+  return from === 'kg' ? weight / KG_PER_LB : weight * KG_PER_LB;
+};
+
+export const roundToPlate = (weight: number, unit: WeightUnit) => {
+  const increment = PLATE_INCREMENT[unit];
+  return Math.round(weight / increment) * increment;
+};
+
+// Sets logged before units existed were always kilograms
+export const setWeightIn = (set: { weight: number; unit?: WeightUnit }, unit: WeightUnit) =>
+  convertWeight(set.weight, set.unit || 'kg', unit);
+
+export const formatWeight = (weight: number, unit: WeightUnit) =>
+  `${Math.round(weight * 10) / 10}${unit}`;
+
+export const parseWeightUnit = (value: string): WeightUnit | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['kg', 'kgs', 'kilogram', 'kilograms'].includes(normalized)) return 'kg';
+  if (['lb', 'lbs', 'pound', 'pounds'].includes(normalized)) return 'lb';
+  return null;
+};
+
+export const weightUnitPreference = createPreference<WeightUnit>(STORAGE_KEY, 'kg', parseWeightUnit);
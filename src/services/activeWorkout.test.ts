@@ -0,0 +1,26 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { findExerciseById } from '@/data/exercises';
+import { activeWorkout } from '@/services/activeWorkout';
+
+describe('activeWorkout', () => {
+  beforeEach(() => {
+    activeWorkout.cancel();
+    activeWorkout.start(findExerciseById('chest-4')!);
+    activeWorkout.completeSet({ reps: 5, weight: 80, unit: 'kg' });
+  });
+
+  it('builds the same log id on every save attempt', () => {
+    const first = activeWorkout.toLog();
+
+    expect(activeWorkout.toLog()?.id).toBe(first?.id);
+    expect(activeWorkout.finish()?.id).toBe(first?.id);
+  });
+
+  it('gives each workout its own log id', () => {
+    const first = activeWorkout.finish();
+    activeWorkout.start(findExerciseById('chest-4')!);
+    activeWorkout.completeSet({ reps: 5, weight: 80, unit: 'kg' });
+
+    expect(activeWorkout.finish()?.id).not.toBe(first?.id);
+  });
+});
@@ -0,0 +1,150 @@
+import { Exercise, WorkoutLog, WorkoutSet } from '@/data/exercises';
+import { createId } from '@/lib/ids';
+import { parsePrescription } from '@/lib/prescription';
+
+export interface ActiveWorkoutState {
+  logId: string; // id of the log this workout becomes, so retried saves don't duplicate it
+  exercise: Exercise;
+  startedAt: string;
+  targetSets: number;
+  completedSets: WorkoutSet[];
+  restSeconds: number;
+  setStartedAt?: number; // epoch ms while a set is under way
+  restEndsAt?: number; // epoch ms while resting
+}
+
+const STORAGE_KEY = 'active_workout';
+const REST_STORAGE_KEY = 'rest_seconds';
+const DEFAULT_REST_SECONDS = 90;
+
+let state: ActiveWorkoutState | null = null;
+
+try {
+  state = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+  // Workouts started before states carried a log id get one now
+  if (state && !state.logId) state = { ...state, logId: createId() };
+} catch {
+  state = null;
+}
+
+const listeners = new Set<(state: ActiveWorkoutState | null) => void>();
+
+function persist() {
+  try {
+    if (state) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (e) {
+    // ignore storage errors
+  }
+}
+
+function emit() {
+  listeners.forEach((cb) => cb(state));
+}
+
+function setState(next: ActiveWorkoutState | null) {
+  state = next;
+  persist();
+  emit();
+}
+
+function savedRestSeconds() {
+  try {
+    return Number(localStorage.getItem(REST_STORAGE_KEY)) || DEFAULT_REST_SECONDS;
+  } catch {
+    return DEFAULT_REST_SECONDS;
+  }
+}
+
+/**
+ * The exercise currently being performed set by set. Kept in localStorage so
+ * a refresh resumes mid-set or mid-rest; rest and set timers are stored as
+ * absolute timestamps for the same reason.
+ */
+export const activeWorkout = {
+  get() {
+    return state;
+  },
+  start(exercise: Exercise) {
+    setState({
+      logId: createId(),
+      exercise,
+      startedAt: new Date().toISOString(),
+      targetSets: parsePrescription(exercise).sets,
+      completedSets: [],
+      restSeconds: savedRestSeconds(),
+    });
+  },
+  beginSet() {
+    if (!state) return;
+    setState({ ...state, setStartedAt: Date.now(), restEndsAt: undefined });
+  },
+  completeSet(set: Omit<WorkoutSet, 'id' | 'timeUnderTension'>) {
+    if (!state) return;
+
+    const now = Date.now();
+    const timeUnderTension = state.setStartedAt ? Math.round((now - state.setStartedAt) / 1000) : undefined;
+    const completedSets = [...state.completedSets, { id: createId(), ...set, timeUnderTension }];
+    setState({
+      ...state,
+      completedSets,
+      setStartedAt: undefined,
+      restEndsAt: completedSets.length < state.targetSets ? now + state.restSeconds * 1000 : undefined,
+    });
+  },
+  addSet() {
+    if (!state) return;
+    setState({ ...state, targetSets: state.targetSets + 1 });
+  },
+  setRestSeconds(restSeconds: number) {
+    if (!state) return;
+
+    const seconds = Math.max(15, Math.round(restSeconds));
+    try {
+      localStorage.setItem(REST_STORAGE_KEY, String(seconds));
+    } catch (e) {
+      // ignore storage errors
+    }
+    // A running countdown moves by the same amount
+    const restEndsAt = state.restEndsAt && state.restEndsAt + (seconds - state.restSeconds) * 1000;
+    setState({ ...state, restSeconds: seconds, restEndsAt });
+  },
+  skipRest() {
+    if (!state) return;
+    setState({ ...state, restEndsAt: undefined });
+  },
+  // The workout so far as a log, or null when no set was completed
+  toLog(): WorkoutLog | null {
+    if (!state || state.completedSets.length === 0) return null;
+
+    const { logId, exercise, startedAt, completedSets } = state;
+    const now = new Date().toISOString();
+    return {
+      id: logId,
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      sets: completedSets,
+      date: startedAt,
+      createdAt: now,
+      muscleGroup: exercise.muscleGroup,
+      difficulty: exercise.difficulty,
+    };
+  },
+  // Ends the workout and returns it as a log, or null when no set was completed
+  finish(): WorkoutLog | null {
+    const log = this.toLog();
+    setState(null);
+    return log;
+  },
+  cancel() {
+    setState(null);
+  },
+  subscribe(cb: (state: ActiveWorkoutState | null) => void) {
+    listeners.add(cb);
+    const unsubscribe = () => { listeners.delete(cb); };
+    return unsubscribe;
+  },
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CUSTOM_EXERCISE_HEADERS,
+  customExercises,
+  parseCustomExerciseRows,
+  toCustomExerciseRow,
+  type CustomExercise,
+} from '@/services/customExercises';
+
+const saveExercise = (id: string, name: string) => customExercises.save({
+  id,
+  name,
+  muscleGroup: 'legs',
+  difficulty: 'intermediate',
+  sets: '3',
+  reps: '8-12',
+  equipment: ['Leg Press Machine'],
+  tips: '',
+  primaryMuscles: ['quads'],
+  secondaryMuscles: [],
+  movementPattern: 'squat',
+  mechanics: 'compound',
+  laterality: 'bilateral',
+});
+
+const later = (exercise: CustomExercise, changes: Partial<CustomExercise>): CustomExercise => ({
+  ...exercise,
+  ...changes,
+  updatedAt: new Date(Date.parse(exercise.updatedAt) + 60_000).toISOString(),
+});
+
+describe('customExercises', () => {
+  it('keeps a deleted exercise as a tombstone that a stale sheet copy cannot bring back', () => {
+    const saved = saveExercise('custom-leg-press', 'Leg Press');
+    customExercises.remove(saved.id);
+
+    expect(customExercises.getAll().some(exercise => exercise.id === saved.id)).toBe(false);
+    expect(customExercises.getRecords().find(exercise => exercise.id === saved.id)?.deletedAt).toBeTruthy();
+
+    customExercises.merge([saved]);
+    expect(customExercises.getAll().some(exercise => exercise.id === saved.id)).toBe(false);
+  });
+
+  it('takes exercises another device added and edits made after ours', () => {
+    const saved = saveExercise('custom-hack-squat', 'Hack Squat');
+    const added = { ...saved, id: 'custom-sissy-squat', name: 'Sissy Squat' };
+
+    customExercises.merge([later(saved, { name: 'Hack Squat Machine' }), added]);
+
+    const names = customExercises.getAll().map(exercise => exercise.name);
+    expect(names).toContain('Hack Squat Machine');
+    expect(names).toContain('Sissy Squat');
+  });
+
+  it('round-trips tombstones through sheet rows', () => {
+    const saved = saveExercise('custom-belt-squat', 'Belt Squat');
+    const deleted = { ...saved, deletedAt: saved.updatedAt };
+    const rows = [CUSTOM_EXERCISE_HEADERS, toCustomExerciseRow(saved), toCustomExerciseRow(deleted)]
+      .map(row => row.map(String));
+
+    const [live, tombstone] = parseCustomExerciseRows(rows);
+    expect(live.deletedAt).toBeUndefined();
+    expect(tombstone.deletedAt).toBe(saved.updatedAt);
+  });
+});
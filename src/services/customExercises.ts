@@ -0,0 +1,184 @@
+import type { Exercise } from '@/data/exercises';
+import {
+  MOVEMENT_PATTERN_LABELS,
+  MUSCLE_GROUP_OF,
+  defaultAnatomy,
+  tagEquipment,
+  type Laterality,
+  type Mechanics,
+  type MovementPattern,
+  type Muscle,
+} from '@/data/exerciseTaxonomy';
+import { createId } from '@/lib/ids';
+
+export interface CustomExercise extends Exercise {
+  custom: true;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string; // kept as a tombstone so a sync can't bring it back
+}
+
+export const CUSTOM_EXERCISES_SHEET = 'Custom Exercises';
+
+export const CUSTOM_EXERCISE_HEADERS = [
+  'ID', 'Name', 'Muscle Group', 'Difficulty', 'Sets', 'Reps', 'Equipment', 'Tips', 'Created At', 'Updated At',
+  'Primary Muscles', 'Secondary Muscles', 'Movement Pattern', 'Mechanics', 'Laterality', 'Deleted At'
+];
+
+const STORAGE_KEY = 'custom_exercises';
+const DIFFICULTIES: Exercise['difficulty'][] = ['beginner', 'intermediate', 'professional'];
+const MECHANICS: Mechanics[] = ['compound', 'isolation'];
+const LATERALITIES: Laterality[] = ['bilateral', 'unilateral', 'alternating'];
+
+// Fills anatomy for exercises saved before it existed and re-derives equipment tags
+const normalize = (exercise: CustomExercise): CustomExercise => ({
+  ...defaultAnatomy(exercise.muscleGroup, exercise.reps),
+  ...exercise,
+  equipmentTags: tagEquipment(exercise.equipment),
+});
+
+let exercises: CustomExercise[] = [];
+
+try {
+  exercises = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]').map(normalize);
+} catch {
+  exercises = [];
+}
+
+const listeners = new Set<(exercises: CustomExercise[]) => void>();
+
+function persist() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(exercises));
+  } catch (e) {
+    // ignore storage errors
+  }
+}
+
+const live = () => exercises.filter((exercise) => !exercise.deletedAt);
+
+function emit() {
+  const snapshot = live();
+  listeners.forEach((cb) => cb(snapshot));
+}
+
+function setExercises(next: CustomExercise[]) {
+  exercises = next;
+  persist();
+  emit();
+}
+
+// Prefixed so custom ids can never collide with catalog ids like "chest-1"
+export const createCustomExerciseId = () => `custom-${createId()}`;
+
+/**
+ * Exercises the user added on top of the built-in catalog, e.g. the
+ * machines at their gym. Kept in localStorage and optionally mirrored to a
+ * sheet tab.
+ */
+export const customExercises = {
+  getAll() {
+    return live();
+  },
+  // Everything the sheet tab should hold, deleted exercises included
+  getRecords() {
+    return [...exercises];
+  },
+  save(exercise: Omit<CustomExercise, 'custom' | 'createdAt' | 'updatedAt' | 'equipmentTags'> & Partial<CustomExercise>) {
+    const now = new Date().toISOString();
+    const saved = normalize({
+      ...exercise,
+      custom: true,
+      createdAt: exercise.createdAt || now,
+      updatedAt: now,
+      deletedAt: undefined,
+    } as CustomExercise);
+    const exists = exercises.some((existing) => existing.id === exercise.id);
+    setExercises(exists
+      ? exercises.map((existing) => (existing.id === exercise.id ? saved : existing))
+      : [...exercises, saved]);
+    return saved;
+  },
+  remove(id: string) {
+    const now = new Date().toISOString();
+    setExercises(exercises.map((exercise) => (
+      exercise.id === id ? { ...exercise, updatedAt: now, deletedAt: now } : exercise
+    )));
+  },
+  // Takes exercises from a sheet, keeping whichever copy was edited or deleted last
+  merge(remote: CustomExercise[]) {
+    const byId = new Map(exercises.map((exercise) => [exercise.id, exercise]));
+    remote.forEach((exercise) => {
+      const local = byId.get(exercise.id);
+      if (!local || new Date(exercise.updatedAt) > new Date(local.updatedAt)) byId.set(exercise.id, exercise);
+    });
+    setExercises(Array.from(byId.values()));
+    return live();
+  },
+  subscribe(cb: (exercises: CustomExercise[]) => void) {
+    listeners.add(cb);
+    const unsubscribe = () => { listeners.delete(cb); };
+    return unsubscribe;
+  },
+};
+
+export const toCustomExerciseRow = (exercise: CustomExercise) => [
+  exercise.id,
+  exercise.name,
+  exercise.muscleGroup,
+  exercise.difficulty,
+  exercise.sets,
+  exercise.reps,
+  exercise.equipment.join(', '),
+  exercise.tips,
+  exercise.createdAt,
+  exercise.updatedAt,
+  exercise.primaryMuscles.join(', '),
+  exercise.secondaryMuscles.join(', '),
+  exercise.movementPattern,
+  exercise.mechanics,
+  exercise.laterality,
+  exercise.deletedAt || '',
+];
+
+const parseMuscles = (value = '') =>
+  value.split(',').map((muscle) => muscle.trim().toLowerCase()).filter((muscle): muscle is Muscle => muscle in MUSCLE_GROUP_OF);
+
+/**
+ * Rows without an id or name are skipped rather than guessed at. Blank or
+ * unknown anatomy cells fall back to the muscle group's defaults.
+ */
+export function parseCustomExerciseRows(values: string[][]): CustomExercise[] {
+  return values.slice(1).flatMap(([
+    id, name, muscleGroup, difficulty, sets, reps, equipment, tips, createdAt, updatedAt,
+    primaryMuscles, secondaryMuscles, movementPattern, mechanics, laterality, deletedAt,
+  ]) => {
+    if (!id?.trim() || !name?.trim()) return [];
+    const now = new Date().toISOString();
+    const group = muscleGroup?.trim().toLowerCase() || '';
+    const defaults = defaultAnatomy(group, reps);
+    const primary = parseMuscles(primaryMuscles);
+    const pattern = movementPattern?.trim().toLowerCase();
+
+    return [normalize({
+      id: id.trim(),
+      name: name.trim(),
+      muscleGroup: group,
+      difficulty: DIFFICULTIES.find((level) => level === difficulty?.trim().toLowerCase()) || 'beginner',
+      sets: sets?.trim() || '3',
+      reps: reps?.trim() || '10',
+      equipment: (equipment || '').split(',').map((item) => item.trim()).filter(Boolean),
+      tips: tips || '',
+      primaryMuscles: primary.length > 0 ? primary : defaults.primaryMuscles,
+      secondaryMuscles: secondaryMuscles?.trim() ? parseMuscles(secondaryMuscles) : defaults.secondaryMuscles,
+      movementPattern: pattern in MOVEMENT_PATTERN_LABELS ? pattern as MovementPattern : defaults.movementPattern,
+      mechanics: MECHANICS.find((value) => value === mechanics?.trim().toLowerCase()) || defaults.mechanics,
+      laterality: LATERALITIES.find((value) => value === laterality?.trim().toLowerCase()) || defaults.laterality,
+      equipmentTags: [],
+      custom: true,
+      createdAt: createdAt || now,
+      updatedAt: updatedAt || createdAt || now,
+      deletedAt: deletedAt?.trim() || undefined,
+    })];
+  });
+}
@@ -0,0 +1,116 @@
+import type { Exercise } from '@/data/exercises';
+import { EQUIPMENT_TAG_LABELS, type EquipmentTag } from '@/data/exerciseTaxonomy';
+import { createId } from '@/lib/ids';
+
+export interface EquipmentProfile {
+  id: string;
+  name: string;
+  equipment: EquipmentTag[];
+}
+
+export interface EquipmentProfilesState {
+  profiles: EquipmentProfile[];
+  activeId: string | null;
+  filterEnabled: boolean; // hide exercises the active profile can't do
+}
+
+const STORAGE_KEY = 'equipment_profiles';
+
+// Everyone has their body weight and a chair or towel, so profiles never list these
+export const ALWAYS_AVAILABLE_EQUIPMENT: EquipmentTag[] = ['bodyweight', 'household'];
+
+export const PROFILE_EQUIPMENT = (Object.keys(EQUIPMENT_TAG_LABELS) as EquipmentTag[])
+  .filter((tag) => !ALWAYS_AVAILABLE_EQUIPMENT.includes(tag));
+
+const DEFAULT_PROFILES: EquipmentProfile[] = [
+  { id: 'home', name: 'Home (dumbbells)', equipment: ['dumbbell', 'band'] },
+  { id: 'hotel', name: 'Hotel gym', equipment: ['dumbbell', 'bench', 'machine', 'cable'] },
+  { id: 'gym', name: 'Full gym', equipment: PROFILE_EQUIPMENT },
+];
+
+let state: EquipmentProfilesState = { profiles: DEFAULT_PROFILES, activeId: 'gym', filterEnabled: false };
+
+try {
+  state = { ...state, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+} catch {
+  state = { profiles: DEFAULT_PROFILES, activeId: 'gym', filterEnabled: false };
+}
+
+const listeners = new Set<(state: EquipmentProfilesState) => void>();
+
+function persist() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    // ignore storage errors
+  }
+}
+
+function emit() {
+  const snapshot = { ...state };
+  listeners.forEach((cb) => cb(snapshot));
+}
+
+function setState(next: EquipmentProfilesState) {
+  state = next;
+  persist();
+  emit();
+}
+
+export const createEquipmentProfile = (): EquipmentProfile => ({ id: createId(), name: '', equipment: [] });
+
+/**
+ * Saved sets of equipment for the places we train, and whether exercise
+ * lists are narrowed to the active one.
+ */
+export const equipmentProfiles = {
+  getState() {
+    return { ...state };
+  },
+  save(profile: EquipmentProfile) {
+    const exists = state.profiles.some((existing) => existing.id === profile.id);
+    setState({
+      ...state,
+      profiles: exists
+        ? state.profiles.map((existing) => (existing.id === profile.id ? profile : existing))
+        : [...state.profiles, profile],
+    });
+  },
+  remove(profileId: string) {
+    setState({
+      ...state,
+      profiles: state.profiles.filter((profile) => profile.id !== profileId),
+      activeId: state.activeId === profileId ? null : state.activeId,
+    });
+  },
+  activate(profileId: string) {
+    setState({ ...state, activeId: profileId });
+  },
+  setFilterEnabled(filterEnabled: boolean) {
+    setState({ ...state, filterEnabled });
+  },
+  subscribe(cb: (state: EquipmentProfilesState) => void) {
+    listeners.add(cb);
+    const unsubscribe = () => { listeners.delete(cb); };
+    return unsubscribe;
+  },
+};
+
+export const getActiveProfile = (current: EquipmentProfilesState) =>
+  current.profiles.find((profile) => profile.id === current.activeId) || null;
+
+/**
+ * Equipment to filter by, or null when filtering is off or no profile is
+ * active and every exercise should be shown.
+ */
+export function getAvailableEquipment(current: EquipmentProfilesState): EquipmentTag[] | null {
+  const profile = getActiveProfile(current);
+  return current.filterEnabled && profile ? profile.equipment : null;
+}
+
+export const getMissingEquipment = (exercise: Exercise, equipment: EquipmentTag[]) =>
+  exercise.equipmentTags.filter((tag) => !ALWAYS_AVAILABLE_EQUIPMENT.includes(tag) && !equipment.includes(tag));
+
+// A null equipment list means no filter, so everything is available
+export const isExerciseAvailable = (exercise: Exercise, equipment: EquipmentTag[] | null) =>
+  !equipment || getMissingEquipment(exercise, equipment).length === 0;
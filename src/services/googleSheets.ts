@@ -1,5 +1,28 @@
 import { WorkoutLog } from '@/data/exercises';
 import { apiLogger } from '@/lib/apiLogger';
+import { legacyId } from '@/lib/ids';
+import { localWorkoutRepository, type WorkoutRepository } from '@/services/workoutRepository';
+import { syncOutbox } from '@/services/syncOutbox';
+import { mergeWorkoutLogs, pullRemoteLogs } from '@/services/syncEngine';
+import { parseWorkoutSheet } from '@/services/sheetParser';
+import {
+  CUSTOM_EXERCISES_SHEET,
+  CUSTOM_EXERCISE_HEADERS,
+  parseCustomExerciseRows,
+  toCustomExerciseRow,
+  type CustomExercise,
+} from '@/services/customExercises';
+import {
+  SCHEMA_VERSION_METADATA_KEY,
+  SHEET_SCHEMA_VERSION,
+  buildHeaderMap,
+  columnLetter,
+  defaultHeaderMap,
+  detectSchemaVersion,
+  migrateHeaders,
+  toSheetRow,
+  type SheetHeaderMap,
+} from '@/services/sheetSchema';
 
 declare global {
   interface Window {
@@ -17,10 +40,13 @@ export interface GoogleSheetsConfig {
 
 export class GoogleSheetsService {
   private config: GoogleSheetsConfig;
+  private localRepository: WorkoutRepository;
   private isGapiLoaded = false;
+  private schemaReady: Promise<SheetHeaderMap> | null = null;
 
-  constructor(config: GoogleSheetsConfig) {
+  constructor(config: GoogleSheetsConfig, localRepository: WorkoutRepository = localWorkoutRepository) {
     this.config = config;
+    this.localRepository = localRepository;
     this.loadGoogleAPI();
   }
 
@@ -71,6 +97,7 @@ export class GoogleSheetsService {
           action: 'signIn',
           message: 'Already signed in to Google'
         });
+        void syncOutbox.flush(this, { force: true });
         
         return true;
       }
@@ -89,6 +116,7 @@ export class GoogleSheetsService {
         action: 'signIn',
         message: 'Successfully signed in to Google'
       });
+      void syncOutbox.flush(this, { force: true });
       
       return true;
     } catch (error: any) {
@@ -174,8 +202,8 @@ export class GoogleSheetsService {
         await this.createWorkoutSheet();
       }
 
-      // Initialize headers if needed
-      await this.ensureHeaders();
+      // Initialize or upgrade headers if needed
+      await this.migrateSchema();
     } catch (error) {
       console.error('Error initializing sheet:', error);
       throw error;
@@ -219,109 +247,170 @@ export class GoogleSheetsService {
     }
   }
 
-  private async ensureHeaders() {
-    try {
-      const headers = [
-        'Date', 'Exercise Name', 'Muscle Group', 'Set Number', 
-        'Reps', 'Weight (kg)', 'Difficulty Level', 'Notes'
-      ];
+  private async readHeaderRow(): Promise<string[]> {
+    if (this.canWrite()) {
+      const response = await window.gapi.client.sheets.spreadsheets.values.get({
+        spreadsheetId: this.config.spreadsheetId,
+        range: `${this.config.sheetName}!1:1`
+      });
+      return response.result.values?.[0] || [];
+    }
 
-      const range = `${this.config.sheetName}!A1:H1`;
-      const url = `${this.getBaseUrl()}/values/${range}?key=${this.config.apiKey}`;
-      
-      const response = await fetch(url);
-      const data = await response.json();
+    const url = `${this.getBaseUrl()}/values/${this.config.sheetName}!1:1?key=${this.config.apiKey}`;
+    const response = await fetch(url);
+    const data = await response.json();
+    return data.values?.[0] || [];
+  }
 
-      if (!data.values || data.values.length === 0) {
-        if (this.config.accessToken) {
-          await this.addHeaders(headers);
-        } else {
-          console.log('Please add these headers to row 1:', headers);
+  private async getStoredSchemaVersion(sheetId: number): Promise<number | null> {
+    try {
+      const response = await window.gapi.client.sheets.spreadsheets.developerMetadata.search({
+        spreadsheetId: this.config.spreadsheetId,
+        resource: {
+          dataFilters: [{
+            developerMetadataLookup: { metadataKey: SCHEMA_VERSION_METADATA_KEY, metadataLocation: { sheetId } }
+          }]
         }
-      }
+      });
+      const metadata = response.result.matchedDeveloperMetadata?.[0]?.developerMetadata;
+      return metadata ? parseInt(metadata.metadataValue) || null : null;
     } catch (error) {
-      console.error('Error checking headers:', error);
+      console.error('Error reading schema version:', error);
+      return null;
     }
   }
 
-  private async addHeaders(headers: string[]) {
+  private async setStoredSchemaVersion(sheetId: number, version: number) {
+    await window.gapi.client.sheets.spreadsheets.batchUpdate({
+      spreadsheetId: this.config.spreadsheetId,
+      resource: {
+        requests: [
+          {
+            deleteDeveloperMetadata: {
+              dataFilter: {
+                developerMetadataLookup: { metadataKey: SCHEMA_VERSION_METADATA_KEY, metadataLocation: { sheetId } }
+              }
+            }
+          },
+          {
+            createDeveloperMetadata: {
+              developerMetadata: {
+                metadataKey: SCHEMA_VERSION_METADATA_KEY,
+                metadataValue: version.toString(),
+                location: { sheetId },
+                visibility: 'DOCUMENT'
+              }
+            }
+          }
+        ]
+      }
+    });
+  }
+
+  /**
+   * Brings the header row up to SHEET_SCHEMA_VERSION by appending the columns
+   * of every pending migration, then records the version as developer
+   * metadata on the sheet. Returns the header map to write rows with.
+   */
+  async migrateSchema(): Promise<SheetHeaderMap> {
     try {
+      const headers = await this.readHeaderRow();
+
+      if (!this.canWrite()) {
+        const version = detectSchemaVersion(headers);
+        if (version < SHEET_SCHEMA_VERSION) {
+          const migrated = migrateHeaders(headers, version);
+          apiLogger.log({
+            status: 'info',
+            source: 'GoogleSheets',
+            action: 'migrateSchema',
+            message: `Sheet is on schema v${version}; sign in to upgrade it or add the missing headers to row 1`,
+            meta: { missing: migrated.slice(headers.length) }
+          });
+        }
+        return headers.length > 0 ? buildHeaderMap(headers) : defaultHeaderMap();
+      }
+
+      const sheetId = await this.getSheetId();
+      const storedVersion = await this.getStoredSchemaVersion(sheetId);
+      const fromVersion = storedVersion ?? detectSchemaVersion(headers);
+
+      if (fromVersion >= SHEET_SCHEMA_VERSION) {
+        return buildHeaderMap(headers);
+      }
+
+      const migrated = migrateHeaders(headers, fromVersion);
       await window.gapi.client.sheets.spreadsheets.values.update({
         spreadsheetId: this.config.spreadsheetId,
-        range: `${this.config.sheetName}!A1:H1`,
+        range: `${this.config.sheetName}!A1:${columnLetter(migrated.length - 1)}1`,
         valueInputOption: 'RAW',
         resource: {
-          values: [headers]
+          values: [migrated]
         }
       });
+      await this.setStoredSchemaVersion(sheetId, SHEET_SCHEMA_VERSION);
 
       apiLogger.log({
         status: 'success',
         source: 'GoogleSheets',
-        action: 'addHeaders',
-        message: 'Added headers to spreadsheet'
+        action: 'migrateSchema',
+        message: headers.length === 0
+          ? `Added schema v${SHEET_SCHEMA_VERSION} headers to spreadsheet`
+          : `Migrated sheet schema from v${fromVersion} to v${SHEET_SCHEMA_VERSION}`,
+        meta: { added: migrated.slice(headers.length) }
       });
-    } catch (error: any) {
+
+      return buildHeaderMap(migrated);
+    } catch (error) {
       apiLogger.log({
         status: 'error',
         source: 'GoogleSheets',
-        action: 'addHeaders',
-        message: error?.message || 'Failed to add headers',
+        action: 'migrateSchema',
+        message: error instanceof Error ? error.message : 'Failed to migrate sheet schema',
         meta: { error }
       });
+      throw error;
     }
   }
 
+  // Migrates once per service instance before the first write
+  private ensureSchema(): Promise<SheetHeaderMap> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.migrateSchema().catch((error) => {
+        this.schemaReady = null;
+        throw error;
+      });
+    }
+    return this.schemaReady;
+  }
+
   async logWorkout(workoutLog: WorkoutLog): Promise<boolean> {
-    try {
+    apiLogger.log({
+      status: 'info',
+      source: 'GoogleSheets',
+      action: 'logWorkout',
+      message: 'Preparing to log workout',
+      meta: { exerciseId: workoutLog.exerciseId, sets: workoutLog.sets.length }
+    });
+
+    // Every log is kept locally so history works offline and sync can reconcile it
+    await this.localRepository.save(workoutLog);
+
+    if (!this.canWrite()) {
+      // Queue the write until the token is valid again
+      syncOutbox.enqueue(workoutLog, 'Not signed in to Google Sheets');
       apiLogger.log({
         status: 'info',
-        source: 'GoogleSheets',
+        source: this.localRepository.name,
         action: 'logWorkout',
-        message: 'Preparing to log workout',
-        meta: { exerciseId: workoutLog.exerciseId, sets: workoutLog.sets.length }
+        message: 'Stored locally and queued for Google Sheets (not signed in)'
       });
-      
-      const rows = workoutLog.sets.map((set, index) => [
-        workoutLog.date,
-        workoutLog.exerciseName,
-        workoutLog.muscleGroup,
-        (index + 1).toString(),
-        set.reps.toString(),
-        set.weight.toString(),
-        workoutLog.difficulty || '', // Difficulty level
-        '' // Notes
-      ]);
-
-      if (this.config.accessToken && this.isTokenValid()) {
-        // Write to Google Sheets using OAuth
-        await window.gapi.client.sheets.spreadsheets.values.append({
-          spreadsheetId: this.config.spreadsheetId,
-          range: `${this.config.sheetName}!A:H`,
-          valueInputOption: 'RAW',
-          resource: {
-            values: rows
-          }
-        });
+      return true;
+    }
 
-        apiLogger.log({
-          status: 'success',
-          source: 'GoogleSheets',
-          action: 'logWorkout',
-          message: `Workout logged to Google Sheets: ${workoutLog.exerciseName}`,
-          meta: { sets: rows.length }
-        });
-      } else {
-        // Fallback to localStorage
-        this.storeWorkoutLocally(workoutLog);
-        apiLogger.log({
-          status: 'info',
-          source: 'LocalStorage',
-          action: 'logWorkout',
-          message: 'Stored locally (not signed in to Google Sheets)'
-        });
-      }
-      
+    try {
+      await this.appendWorkout(workoutLog);
+      syncOutbox.markSynced(workoutLog.id);
       return true;
     } catch (error: any) {
       console.error('Error logging workout:', error);
@@ -332,69 +421,328 @@ export class GoogleSheetsService {
         message: error?.message || 'Unknown error while logging workout',
         meta: { error }
       });
-      // Fallback to local storage
-      this.storeWorkoutLocally(workoutLog);
+      // Retry from the outbox
+      syncOutbox.enqueue(workoutLog, error?.message);
       return false;
     }
   }
 
-  private storeWorkoutLocally(workoutLog: WorkoutLog) {
-    try {
-      const existingLogs = localStorage.getItem('workout_logs');
-      const logs = existingLogs ? JSON.parse(existingLogs) : [];
-      logs.push(workoutLog);
-      localStorage.setItem('workout_logs', JSON.stringify(logs));
-    } catch (error) {
-      console.error('Error storing workout locally:', error);
+  getLocalRepository(): WorkoutRepository {
+    return this.localRepository;
+  }
+
+  canWrite(): boolean {
+    if (!this.isTokenValid()) return false;
+
+    // Pick up a token obtained by another service instance (e.g. the setup screen)
+    if (!this.config.accessToken) {
+      this.config.accessToken = localStorage.getItem('google_access_token') || undefined;
     }
+    return !!this.config.accessToken;
   }
 
-  async getWorkoutHistory(muscleGroup?: string): Promise<WorkoutLog[]> {
+  private toSheetRows(workoutLog: WorkoutLog, headerMap: SheetHeaderMap, existingRows: string[][] = []): string[][] {
+    return workoutLog.sets.map((set, index) => toSheetRow({
+      date: workoutLog.date,
+      exerciseName: workoutLog.exerciseName,
+      muscleGroup: workoutLog.muscleGroup,
+      setNumber: (index + 1).toString(),
+      reps: set.reps.toString(),
+      weight: set.weight.toString(),
+      unit: set.unit || 'kg',
+      difficulty: workoutLog.difficulty || '',
+      notes: set.notes || '',
+      logId: workoutLog.id,
+      setId: set.id,
+      exerciseId: workoutLog.exerciseId,
+      createdAt: workoutLog.createdAt,
+      updatedAt: workoutLog.updatedAt || '',
+      setType: set.type || '',
+      rpe: set.rpe?.toString() ?? '',
+      rir: set.rir?.toString() ?? '',
+      timeUnderTension: set.timeUnderTension?.toString() ?? '',
+      sessionNotes: workoutLog.notes || '',
+      sessionId: workoutLog.sessionId || '',
+      personalRecords: (workoutLog.personalRecords || []).join(','),
+      substitutedFor: workoutLog.substitutedFor || ''
+    }, headerMap, existingRows[index]));
+  }
+
+  async appendWorkout(workoutLog: WorkoutLog): Promise<void> {
+    const headerMap = await this.ensureSchema();
+    const rows = this.toSheetRows(workoutLog, headerMap);
+
+    await window.gapi.client.sheets.spreadsheets.values.append({
+      spreadsheetId: this.config.spreadsheetId,
+      range: this.config.sheetName,
+      valueInputOption: 'RAW',
+      resource: {
+        values: rows
+      }
+    });
+
+    apiLogger.log({
+      status: 'success',
+      source: 'GoogleSheets',
+      action: 'logWorkout',
+      message: `Workout logged to Google Sheets: ${workoutLog.exerciseName}`,
+      meta: { sets: rows.length }
+    });
+  }
+
+  async hasWorkout(workoutLog: WorkoutLog): Promise<boolean> {
+    const { rows } = await this.findWorkoutRows(workoutLog.id);
+    return rows.length > 0;
+  }
+
+  private async readSheetValues(): Promise<string[][]> {
+    if (this.canWrite()) {
+      // Read from Google Sheets using OAuth
+      const response = await window.gapi.client.sheets.spreadsheets.values.get({
+        spreadsheetId: this.config.spreadsheetId,
+        range: this.config.sheetName
+      });
+      return response.result.values || [];
+    }
+
+    // Read from Google Sheets with API key (read-only)
+    const url = `${this.getBaseUrl()}/values/${this.config.sheetName}?key=${this.config.apiKey}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch from Google Sheets: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    return data.values || [];
+  }
+
+  // Sheet rows holding the sets of a log, with zero-based indexes (header is row 0)
+  private async findWorkoutRows(logId: string) {
+    const values = await this.readSheetValues();
+    const headerMap = buildHeaderMap(values[0] || []);
+    const rows: { index: number; values: string[] }[] = [];
+
+    values.forEach((row, index) => {
+      if (index === 0) return;
+      const rowLogId = row[headerMap.logId] || legacyId(row[headerMap.date], row[headerMap.exerciseName]);
+      if (rowLogId === logId) rows.push({ index, values: row });
+    });
+
+    return { headerMap, rows };
+  }
+
+  private async getSheetId(): Promise<number> {
+    const response = await window.gapi.client.sheets.spreadsheets.get({
+      spreadsheetId: this.config.spreadsheetId
+    });
+
+    const sheet = response.result.sheets?.find((candidate: { properties: { title: string } }) =>
+      candidate.properties.title === this.config.sheetName
+    );
+    if (!sheet) {
+      throw new Error(`Sheet "${this.config.sheetName}" not found in spreadsheet`);
+    }
+    return sheet.properties.sheetId;
+  }
+
+  private async deleteRows(rowIndexes: number[]) {
+    if (rowIndexes.length === 0) return;
+
+    const sheetId = await this.getSheetId();
+    // Delete bottom-up so earlier deletions do not shift the remaining indexes
+    const requests = [...rowIndexes].sort((a, b) => b - a).map(index => ({
+      deleteDimension: {
+        range: { sheetId, dimension: 'ROWS', startIndex: index, endIndex: index + 1 }
+      }
+    }));
+
+    await window.gapi.client.sheets.spreadsheets.batchUpdate({
+      spreadsheetId: this.config.spreadsheetId,
+      resource: { requests }
+    });
+  }
+
+  /**
+   * Rewrites the rows of an existing log in place. Added sets are appended and
+   * removed sets have their rows deleted.
+   */
+  async updateWorkout(workoutLog: WorkoutLog): Promise<boolean> {
     try {
-      if (this.config.accessToken && this.isTokenValid()) {
-        // Try to read from Google Sheets using OAuth
-        const response = await window.gapi.client.sheets.spreadsheets.values.get({
+      await this.ensureSchema();
+      const { headerMap, rows: existing } = await this.findWorkoutRows(workoutLog.id);
+      if (existing.length === 0) return false;
+
+      const rowIndexes = existing.map(row => row.index);
+      const rows = this.toSheetRows(workoutLog, headerMap, existing.map(row => row.values));
+      const data = rows.slice(0, rowIndexes.length).map((row, i) => ({
+        range: `${this.config.sheetName}!A${rowIndexes[i] + 1}:${columnLetter(row.length - 1)}${rowIndexes[i] + 1}`,
+        values: [row]
+      }));
+
+      await window.gapi.client.sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId: this.config.spreadsheetId,
+        resource: { valueInputOption: 'RAW', data }
+      });
+
+      if (rows.length > rowIndexes.length) {
+        await window.gapi.client.sheets.spreadsheets.values.append({
           spreadsheetId: this.config.spreadsheetId,
-          range: `${this.config.sheetName}!A:H`
+          range: this.config.sheetName,
+          valueInputOption: 'RAW',
+          resource: { values: rows.slice(rowIndexes.length) }
         });
+      } else {
+        await this.deleteRows(rowIndexes.slice(rows.length));
+      }
 
-        if (response.result.values && response.result.values.length > 1) {
-          const logs = this.parseSheetData(response.result.values);
-          const result = muscleGroup ? logs.filter(log => log.muscleGroup === muscleGroup) : logs;
+      apiLogger.log({
+        status: 'success',
+        source: 'GoogleSheets',
+        action: 'updateWorkout',
+        message: `Updated ${workoutLog.exerciseName} in Google Sheets`,
+        meta: { logId: workoutLog.id, previousSets: rowIndexes.length, sets: rows.length }
+      });
+      return true;
+    } catch (error) {
+      apiLogger.log({
+        status: 'error',
+        source: 'GoogleSheets',
+        action: 'updateWorkout',
+        message: error instanceof Error ? error.message : 'Failed to update workout in Google Sheets',
+        meta: { logId: workoutLog.id, error }
+      });
+      throw error;
+    }
+  }
 
-          apiLogger.log({
-            status: 'success',
-            source: 'GoogleSheets',
-            action: 'getWorkoutHistory',
-            message: `Loaded ${result.length} workouts from Google Sheets`,
-            meta: { total: logs.length, filtered: result.length }
-          });
+  async deleteWorkout(logId: string): Promise<boolean> {
+    try {
+      const { rows } = await this.findWorkoutRows(logId);
+      const rowIndexes = rows.map(row => row.index);
+      await this.deleteRows(rowIndexes);
 
-          return result;
-        }
-      } else {
-        // Try to read from Google Sheets with API key (read-only)
-        const range = `${this.config.sheetName}!A:H`;
-        const url = `${this.getBaseUrl()}/values/${range}?key=${this.config.apiKey}`;
-        
-        const response = await fetch(url);
-        if (response.ok) {
-          const data = await response.json();
-          if (data.values && data.values.length > 1) {
-            const logs = this.parseSheetData(data.values);
-            const result = muscleGroup ? logs.filter(log => log.muscleGroup === muscleGroup) : logs;
-
-            apiLogger.log({
-              status: 'success',
-              source: 'GoogleSheets',
-              action: 'getWorkoutHistory',
-              message: `Loaded ${result.length} workouts from Google Sheets (API key)`,
-              meta: { total: logs.length, filtered: result.length }
-            });
-
-            return result;
+      apiLogger.log({
+        status: 'success',
+        source: 'GoogleSheets',
+        action: 'deleteWorkout',
+        message: `Deleted ${rowIndexes.length} rows from Google Sheets`,
+        meta: { logId }
+      });
+      return rowIndexes.length > 0;
+    } catch (error) {
+      apiLogger.log({
+        status: 'error',
+        source: 'GoogleSheets',
+        action: 'deleteWorkout',
+        message: error instanceof Error ? error.message : 'Failed to delete workout from Google Sheets',
+        meta: { logId, error }
+      });
+      throw error;
+    }
+  }
+
+  private async hasSheet(title: string): Promise<boolean> {
+    const response = await window.gapi.client.sheets.spreadsheets.get({
+      spreadsheetId: this.config.spreadsheetId
+    });
+    return !!response.result.sheets?.some((candidate: { properties: { title: string } }) =>
+      candidate.properties.title === title
+    );
+  }
+
+  async getCustomExercises(): Promise<CustomExercise[]> {
+    if (this.canWrite()) {
+      if (!(await this.hasSheet(CUSTOM_EXERCISES_SHEET))) return [];
+      const response = await window.gapi.client.sheets.spreadsheets.values.get({
+        spreadsheetId: this.config.spreadsheetId,
+        range: CUSTOM_EXERCISES_SHEET
+      });
+      return parseCustomExerciseRows(response.result.values || []);
+    }
+
+    const url = `${this.getBaseUrl()}/values/${encodeURIComponent(CUSTOM_EXERCISES_SHEET)}?key=${this.config.apiKey}`;
+    const response = await fetch(url);
+    // A missing tab is a 400, which just means nothing was shared yet
+    if (!response.ok) return [];
+    const data = await response.json();
+    return parseCustomExerciseRows(data.values || []);
+  }
+
+  /**
+   * Replaces the custom exercises tab with `exercises`, creating the tab on
+   * first use. Merge the tab's current rows in first so other devices'
+   * additions survive. Requires OAuth.
+   */
+  async saveCustomExercises(exercises: CustomExercise[]): Promise<void> {
+    if (!this.canWrite()) {
+      throw new Error('OAuth authentication required to save custom exercises');
+    }
+
+    try {
+      if (!(await this.hasSheet(CUSTOM_EXERCISES_SHEET))) {
+        await window.gapi.client.sheets.spreadsheets.batchUpdate({
+          spreadsheetId: this.config.spreadsheetId,
+          resource: {
+            requests: [{ addSheet: { properties: { title: CUSTOM_EXERCISES_SHEET } } }]
           }
+        });
+      }
+
+      await window.gapi.client.sheets.spreadsheets.values.clear({
+        spreadsheetId: this.config.spreadsheetId,
+        range: CUSTOM_EXERCISES_SHEET
+      });
+      await window.gapi.client.sheets.spreadsheets.values.update({
+        spreadsheetId: this.config.spreadsheetId,
+        range: `${CUSTOM_EXERCISES_SHEET}!A1`,
+        valueInputOption: 'RAW',
+        resource: {
+          values: [CUSTOM_EXERCISE_HEADERS, ...exercises.map(toCustomExerciseRow)]
         }
+      });
+
+      apiLogger.log({
+        status: 'success',
+        source: 'GoogleSheets',
+        action: 'saveCustomExercises',
+        message: `Saved ${exercises.length} custom exercise${exercises.length === 1 ? '' : 's'} to ${CUSTOM_EXERCISES_SHEET}`
+      });
+    } catch (error) {
+      apiLogger.log({
+        status: 'error',
+        source: 'GoogleSheets',
+        action: 'saveCustomExercises',
+        message: error instanceof Error ? error.message : 'Failed to save custom exercises',
+        meta: { error }
+      });
+      throw error;
+    }
+  }
+
+  async getSheetWorkouts(): Promise<WorkoutLog[]> {
+    const values = await this.readSheetValues();
+    return values.length > 1 ? this.parseSheetData(values) : [];
+  }
+
+  async getWorkoutHistory(muscleGroup?: string): Promise<WorkoutLog[]> {
+    try {
+      const remoteLogs = await this.getSheetWorkouts();
+
+      if (remoteLogs.length > 0) {
+        // Include logs written while signed out that have not reached the sheet yet
+        const localLogs = await this.localRepository.list();
+        const logs = mergeWorkoutLogs(remoteLogs, localLogs);
+        await this.cacheRemoteLogs(localLogs, remoteLogs);
+        const result = muscleGroup ? logs.filter(log => log.muscleGroup === muscleGroup) : logs;
+
+        apiLogger.log({
+          status: 'success',
+          source: 'GoogleSheets',
+          action: 'getWorkoutHistory',
+          message: `Loaded ${result.length} workouts from Google Sheets${this.canWrite() ? '' : ' (API key)'} and local storage`,
+          meta: { remote: remoteLogs.length, local: localLogs.length, total: logs.length, filtered: result.length }
+        });
+
+        return result;
       }
     } catch (error: any) {
       apiLogger.log({
@@ -410,73 +758,45 @@ export class GoogleSheetsService {
     return this.getLocalWorkoutHistory(muscleGroup);
   }
 
-  private parseSheetData(values: any[][]): WorkoutLog[] {
-    const logs: WorkoutLog[] = [];
-    const headers = values[0];
-    
-    // Group rows by date and exercise
-    const groupedData = new Map<string, any>();
-    
-    for (let i = 1; i < values.length; i++) {
-      const row = values[i];
-      const date = row[0];
-      const exerciseName = row[1];
-      const muscleGroup = row[2];
-      const setNumber = parseInt(row[3]) || 1;
-      const reps = parseInt(row[4]) || 0;
-      const weight = parseFloat(row[5]) || 0;
-      
-      const key = `${date}-${exerciseName}`;
-      
-      if (!groupedData.has(key)) {
-        groupedData.set(key, {
-          exerciseId: `${muscleGroup}-${exerciseName}`.toLowerCase().replace(/\s+/g, '-'),
-          exerciseName,
-          muscleGroup,
-          date,
-          sets: []
-        });
-      }
-      
-      groupedData.get(key).sets.push({ reps, weight });
+  // Keeps sheet logs locally too, so checks like personal records can answer without a sheet read
+  private async cacheRemoteLogs(localLogs: WorkoutLog[], remoteLogs: WorkoutLog[]) {
+    try {
+      await pullRemoteLogs(this.localRepository, localLogs, remoteLogs);
+    } catch (error) {
+      apiLogger.log({
+        status: 'error',
+        source: this.localRepository.name,
+        action: 'cacheRemoteLogs',
+        message: error instanceof Error ? error.message : 'Failed to store sheet logs locally',
+        meta: { error }
+      });
     }
-    
-    return Array.from(groupedData.values());
   }
 
-  private getLocalWorkoutHistory(muscleGroup?: string): WorkoutLog[] {
-    try {
-      const existingLogs = localStorage.getItem('workout_logs');
-      const logs: WorkoutLog[] = existingLogs ? JSON.parse(existingLogs) : [];
-      const result = muscleGroup ? logs.filter(log => log.muscleGroup === muscleGroup) : logs;
+  private parseSheetData(values: string[][]): WorkoutLog[] {
+    const { logs, rejected } = parseWorkoutSheet(values);
 
-      apiLogger.log({
-        status: 'success',
-        source: 'LocalStorage',
-        action: 'getWorkoutHistory',
-        message: `Loaded ${result.length} workout logs from localStorage${muscleGroup ? ' (filtered)' : ''}.`,
-        meta: { total: logs.length, filtered: result.length, muscleGroup: muscleGroup || 'all' }
-      });
-      
-      return result;
-    } catch (error: any) {
-      console.error('Error reading local workout history:', error);
+    if (rejected.length > 0) {
       apiLogger.log({
         status: 'error',
-        source: 'LocalStorage',
-        action: 'getWorkoutHistory',
-        message: error?.message || 'Failed to read workout logs from localStorage',
-        meta: { error }
+        source: 'GoogleSheets',
+        action: 'parseSheetData',
+        message: `Skipped ${rejected.length} invalid row${rejected.length === 1 ? '' : 's'} in ${this.config.sheetName}`,
+        meta: { rejectedRows: rejected }
       });
-      return [];
     }
+
+    return logs;
+  }
+
+  private getLocalWorkoutHistory(muscleGroup?: string): Promise<WorkoutLog[]> {
+    return this.localRepository.query({ muscleGroup });
   }
 
   async getWorkoutHistoryOld(muscleGroup?: string): Promise<WorkoutLog[]> {
     try {
       // Try to read from Google Sheets first
-      const range = `${this.config.sheetName}!A:H`;
-      const url = `${this.getBaseUrl()}/values/${range}?key=${this.config.apiKey}`;
+      const url = `${this.getBaseUrl()}/values/${this.config.sheetName}?key=${this.config.apiKey}`;
 
       apiLogger.log({
         status: 'info',
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parseWorkoutSheet } from '@/services/sheetParser';
+
+describe('parseWorkoutSheet', () => {
+  it('finds columns by header name whatever their order', () => {
+    const { logs, rejected } = parseWorkoutSheet([
+      ['Log ID', 'Weight', 'Reps', 'Exercise Name', 'Date', 'Set Number'],
+      ['a', '60', '10', 'Barbell Bench Press', '2024-03-04T10:00:00.000Z', '1'],
+      ['a', '62.5', '8', 'Barbell Bench Press', '2024-03-04T10:00:00.000Z', '2'],
+    ]);
+
+    expect(rejected).toEqual([]);
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ id: 'a', exerciseId: 'chest-4', exerciseName: 'Barbell Bench Press', muscleGroup: 'chest' });
+    expect(logs[0].sets.map(set => [set.reps, set.weight])).toEqual([[10, 60], [8, 62.5]]);
+  });
+
+  it('reads optional columns that are missing as blank', () => {
+    const { logs, rejected } = parseWorkoutSheet([
+      ['Exercise', 'Date', 'Reps'],
+      ['Wide-Grip Pull-ups', '2024-03-04', '12'],
+    ]);
+
+    expect(rejected).toEqual([]);
+    expect(logs[0].muscleGroup).toBe('back');
+    expect(logs[0].sets[0]).toMatchObject({ reps: 12, weight: 0, unit: 'kg' });
+    expect(logs[0].sets[0].rpe).toBeUndefined();
+  });
+
+  it('takes the unit from the weight header when there is no Unit column', () => {
+    const { logs } = parseWorkoutSheet([
+      ['Date', 'Exercise Name', 'Reps', 'Weight (lb)'],
+      ['2024-03-04', 'Barbell Bench Press', '5', '225'],
+    ]);
+
+    expect(logs[0].sets[0]).toMatchObject({ weight: 225, unit: 'lb' });
+  });
+
+  it('rejects the whole sheet when a required column is missing', () => {
+    const { logs, rejected } = parseWorkoutSheet([
+      ['Date', 'Weight'],
+      ['2024-03-04', '60'],
+    ]);
+
+    expect(logs).toEqual([]);
+    expect(rejected).toEqual([{
+      rowNumber: 1,
+      values: ['Date', 'Weight'],
+      reasons: ['Missing required column "Exercise Name"', 'Missing required column "Reps"'],
+    }]);
+  });
+
+  it('rejects invalid rows with their reasons and keeps the valid ones', () => {
+    const { logs, rejected } = parseWorkoutSheet([
+      ['Date', 'Exercise Name', 'Reps', 'Weight', 'RPE', 'Log ID'],
+      ['2024-03-04', 'Barbell Bench Press', '10', '60', '8', 'good'],
+      ['2024-03-04', 'Barbell Bench Press', 'ten', '60', '', 'bad-reps'],
+      ['', '', '', '', '', ''],
+      ['yesterday', 'Barbell Bench Press', '10', '-5', '12', 'bad-cells'],
+      ['2024-03-04', '', '0', '60', '', 'no-name'],
+    ]);
+
+    expect(logs.map(log => log.id)).toEqual(['good']);
+    expect(rejected.map(row => row.rowNumber)).toEqual([3, 5, 6]);
+    expect(rejected[0].reasons).toEqual(['Reps "ten" is not a number']);
+    expect(rejected[1].reasons).toEqual([
+      'Date "yesterday" is not a recognised date (use e.g. 2024-05-01)',
+      'Weight "-5" is negative',
+      'RPE must be between 1 and 10',
+    ]);
+    expect(rejected[2].reasons).toEqual(['Exercise name is missing', 'Reps must be greater than 0']);
+  });
+});
@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { SET_TYPE_LABELS, SetType, WorkoutLog, WorkoutSet, findExerciseByName } from '@/data/exercises';
+import { legacyId } from '@/lib/ids';
+import { parseWeightUnit, type WeightUnit } from '@/lib/units';
+import { PERSONAL_RECORD_LABELS, type PersonalRecordType } from '@/lib/personalRecords';
+import { buildHeaderMap, getColumn, type SheetColumnKey, type SheetHeaderMap } from '@/services/sheetSchema';
+
+export interface RejectedRow {
+  rowNumber: number; // 1-based, as shown in Google Sheets
+  values: string[];
+  reasons: string[];
+}
+
+export interface SheetParseResult {
+  logs: WorkoutLog[];
+  rejected: RejectedRow[];
+}
+
+const REQUIRED_COLUMNS: SheetColumnKey[] = ['date', 'exerciseName', 'reps'];
+
+// Formats people tend to type by hand besides ISO 8601
+const MANUAL_DATE_FORMATS = ['yyyy-MM-dd HH:mm', 'yyyy-MM-dd HH:mm:ss', 'M/d/yyyy', 'M/d/yyyy H:mm', 'd.M.yyyy'];
+
+const toIsoDate = (value: string): string | null => {
+  if (isValid(parseISO(value))) return value;
+
+  for (const pattern of MANUAL_DATE_FORMATS) {
+    const parsed = parse(value, pattern, new Date());
+    if (isValid(parsed)) {
+      return pattern.includes('H') ? parsed.toISOString() : format(parsed, 'yyyy-MM-dd');
+    }
+  }
+  return null;
+};
+
+const SET_TYPE_ALIASES: Record<string, SetType> = {
+  ...Object.fromEntries(
+    (Object.entries(SET_TYPE_LABELS) as [SetType, string][]).flatMap(([type, label]) => [[type, type], [label.toLowerCase(), type]])
+  ),
+  'warm up': 'warmup',
+  dropset: 'drop',
+};
+
+const numberCell = (label: string, { integer = false, required = true } = {}) =>
+  z.string()
+    .transform(value => value.trim().replace(',', '.'))
+    .superRefine((value, ctx) => {
+      if (value === '') {
+        if (required) ctx.addIssue({ code: z.ZodIssueCode.custom, fatal: true, message: `${label} is missing` });
+        return;
+      }
+      if (!/^-?\d+(\.\d+)?$/.test(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, fatal: true, message: `${label} "${value}" is not a number` });
+      } else if (integer && !Number.isInteger(Number(value))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, fatal: true, message: `${label} "${value}" is not a whole number` });
+      } else if (Number(value) < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, fatal: true, message: `${label} "${value}" is negative` });
+      }
+    })
+    .transform(value => (value === '' ? undefined : Number(value)));
+
+const sheetRowSchema = z.object({
+  date: z.string().trim()
+    .min(1, 'Date is missing')
+    .transform((value, ctx) => {
+      const date = toIsoDate(value);
+      if (!date) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Date "${value}" is not a recognised date (use e.g. 2024-05-01)` });
+        return z.NEVER;
+      }
+      return date;
+    }),
+  exerciseName: z.string().trim().min(1, 'Exercise name is missing'),
+  muscleGroup: z.string().trim(),
+  setNumber: numberCell('Set number', { integer: true, required: false }),
+  reps: numberCell('Reps', { integer: true }).refine(reps => reps > 0, 'Reps must be greater than 0'),
+  weight: numberCell('Weight', { required: false }).transform(weight => weight ?? 0),
+  difficulty: z.string().trim(),
+  logId: z.string().trim(),
+  setId: z.string().trim(),
+  exerciseId: z.string().trim(),
+  createdAt: z.string().trim(),
+  updatedAt: z.string().trim(),
+  setType: z.string().trim()
+    .transform((value, ctx) => {
+      if (value === '') return undefined;
+      const type = SET_TYPE_ALIASES[value.toLowerCase()];
+      if (!type) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Set type "${value}" is not one of ${Object.values(SET_TYPE_LABELS).join(', ')}` });
+        return z.NEVER;
+      }
+      return type;
+    }),
+  rpe: numberCell('RPE', { required: false }).refine(rpe => rpe === undefined || (rpe >= 1 && rpe <= 10), 'RPE must be between 1 and 10'),
+  rir: numberCell('RIR', { integer: true, required: false }),
+  timeUnderTension: numberCell('Time under tension', { integer: true, required: false }),
+  notes: z.string().trim(),
+  sessionNotes: z.string().trim(),
+  sessionId: z.string().trim(),
+  substitutedFor: z.string().trim(),
+  // Unknown record types are dropped rather than rejecting the row
+  personalRecords: z.string()
+    .transform(value => value.split(',').map(type => type.trim()).filter(type => type in PERSONAL_RECORD_LABELS) as PersonalRecordType[]),
+  unit: z.string().trim()
+    .transform((value, ctx) => {
+      if (value === '') return undefined;
+      const unit = parseWeightUnit(value);
+      if (!unit) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unit "${value}" is not kg or lb` });
+        return z.NEVER;
+      }
+      return unit;
+    }),
+});
+
+type SheetRow = z.infer<typeof sheetRowSchema>;
+
+const readCells = (row: string[], headerMap: SheetHeaderMap) => {
+  const cell = (key: SheetColumnKey) => (headerMap[key] === undefined ? '' : String(row[headerMap[key]] ?? ''));
+  return {
+    date: cell('date'),
+    exerciseName: cell('exerciseName'),
+    muscleGroup: cell('muscleGroup'),
+    setNumber: cell('setNumber'),
+    reps: cell('reps'),
+    weight: cell('weight'),
+    difficulty: cell('difficulty'),
+    logId: cell('logId'),
+    setId: cell('setId'),
+    exerciseId: cell('exerciseId'),
+    createdAt: cell('createdAt'),
+    updatedAt: cell('updatedAt'),
+    setType: cell('setType'),
+    rpe: cell('rpe'),
+    rir: cell('rir'),
+    timeUnderTension: cell('timeUnderTension'),
+    notes: cell('notes'),
+    sessionNotes: cell('sessionNotes'),
+    unit: cell('unit'),
+    sessionId: cell('sessionId'),
+    personalRecords: cell('personalRecords'),
+    substitutedFor: cell('substitutedFor'),
+  };
+};
+
+const toWorkoutLog = (row: SheetRow, logId: string): WorkoutLog => ({
+  id: logId,
+  exerciseId: row.exerciseId
+    || findExerciseByName(row.exerciseName)?.id
+    || `${row.muscleGroup}-${row.exerciseName}`.toLowerCase().replace(/\s+/g, '-'),
+  exerciseName: row.exerciseName,
+  muscleGroup: row.muscleGroup || findExerciseByName(row.exerciseName)?.muscleGroup || '',
+  date: row.date,
+  createdAt: row.createdAt || row.date,
+  updatedAt: row.updatedAt || undefined,
+  difficulty: row.difficulty || undefined,
+  notes: row.sessionNotes || undefined,
+  ...(row.sessionId && { sessionId: row.sessionId }),
+  ...(row.personalRecords.length > 0 && { personalRecords: row.personalRecords }),
+  ...(row.substitutedFor && { substitutedFor: row.substitutedFor }),
+  sets: [],
+});
+
+// Blank cells leave the optional set fields unset rather than zero
+const toWorkoutSet = (row: SheetRow, id: string, defaultUnit: WeightUnit): WorkoutSet => ({
+  id,
+  reps: row.reps,
+  weight: row.weight,
+  unit: row.unit || defaultUnit,
+  ...(row.setType && { type: row.setType }),
+  ...(row.rpe !== undefined && { rpe: row.rpe }),
+  ...(row.rir !== undefined && { rir: row.rir }),
+  ...(row.timeUnderTension !== undefined && { timeUnderTension: row.timeUnderTension }),
+  ...(row.notes && { notes: row.notes }),
+});
+
+/**
+ * Parses the raw values of the workout sheet. Columns are found by header
+ * name, each row is validated on its own and rows that fail are returned
+ * with the reasons instead of being coerced to zero.
+ */
+export const parseWorkoutSheet = (values: string[][]): SheetParseResult => {
+  const [headers = [], ...rows] = values;
+  const headerMap = buildHeaderMap(headers);
+
+  const missingColumns = REQUIRED_COLUMNS.filter(key => headerMap[key] === undefined);
+  if (missingColumns.length > 0) {
+    return {
+      logs: [],
+      rejected: [{
+        rowNumber: 1,
+        values: headers,
+        reasons: missingColumns.map(key => `Missing required column "${getColumn(key).header}"`),
+      }],
+    };
+  }
+
+  // Rows without a Unit cell use the unit named in the weight header, e.g. "Weight (lb)"
+  const defaultUnit: WeightUnit = /\blbs?\b/i.test(headers[headerMap.weight] ?? '') ? 'lb' : 'kg';
+
+  // Group rows by log ID, falling back to date and exercise for rows written before ids
+  const groupedData = new Map<string, WorkoutLog>();
+  const rejected: RejectedRow[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    if (row.every(value => String(value ?? '').trim() === '')) return;
+
+    const result = sheetRowSchema.safeParse(readCells(row, headerMap));
+    if (!result.success) {
+      rejected.push({ rowNumber, values: row, reasons: result.error.issues.map(issue => issue.message) });
+      return;
+    }
+
+    const parsed = result.data;
+    const logId = parsed.logId || legacyId(parsed.date, parsed.exerciseName);
+    if (!groupedData.has(logId)) {
+      groupedData.set(logId, toWorkoutLog(parsed, logId));
+    }
+
+    const log = groupedData.get(logId);
+    const setNumber = parsed.setNumber || log.sets.length + 1;
+    log.sets.push(toWorkoutSet(parsed, parsed.setId || `${logId}-set-${setNumber}`, defaultUnit));
+  });
+
+  return { logs: Array.from(groupedData.values()), rejected };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { SHEET_COLUMNS, SHEET_SCHEMA_VERSION, buildHeaderMap, detectSchemaVersion, migrateHeaders } from '@/services/sheetSchema';
+
+const VERSION_1_HEADERS = ['Date', 'Exercise Name', 'Muscle Group', 'Set Number', 'Reps', 'Weight', 'Difficulty Level', 'Notes'];
+
+describe('sheet schema migrations', () => {
+  it('detects the version of an original sheet', () => {
+    expect(detectSchemaVersion(VERSION_1_HEADERS)).toBe(1);
+    expect(detectSchemaVersion([])).toBe(0);
+  });
+
+  it('stops at the first migration whose columns are incomplete', () => {
+    // Unit (version 4) is present, but RPE from version 3 is not
+    const headers = [...VERSION_1_HEADERS, 'Log ID', 'Set ID', 'Exercise ID', 'Created At', 'Updated At', 'Unit'];
+
+    expect(detectSchemaVersion(headers)).toBe(2);
+  });
+
+  it('appends missing headers and leaves existing ones in place', () => {
+    const headers = ['Exercise', 'Date', 'Reps', 'My own column', 'Weight (kg)'];
+    const migrated = migrateHeaders(headers, detectSchemaVersion(headers));
+
+    expect(migrated.slice(0, headers.length)).toEqual(headers);
+    expect(detectSchemaVersion(migrated)).toBe(SHEET_SCHEMA_VERSION);
+    expect(migrated).toHaveLength(headers.length + SHEET_COLUMNS.length - 4);
+  });
+
+  it('maps aliases and reordered headers to their columns', () => {
+    expect(buildHeaderMap(['Reps', ' exercise ', 'TUT'])).toEqual({ reps: 0, exerciseName: 1, timeUnderTension: 2 });
+  });
+});
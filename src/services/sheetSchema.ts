@@ -0,0 +1,195 @@
+export type SheetColumnKey =
+  | 'date'
+  | 'exerciseName'
+  | 'muscleGroup'
+  | 'setNumber'
+  | 'reps'
+  | 'weight'
+  | 'difficulty'
+  | 'notes'
+  | 'logId'
+  | 'setId'
+  | 'exerciseId'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'setType'
+  | 'rpe'
+  | 'rir'
+  | 'sessionNotes'
+  | 'unit'
+  | 'sessionId'
+  | 'timeUnderTension'
+  | 'personalRecords'
+  | 'substitutedFor';
+
+export interface SheetColumn {
+  key: SheetColumnKey;
+  header: string;
+  aliases?: string[];
+}
+
+export interface SheetMigration {
+  version: number;
+  description: string;
+  addColumns: SheetColumnKey[];
+}
+
+export type SheetHeaderMap = Partial<Record<SheetColumnKey, number>>;
+
+// Developer metadata key holding the schema version on the workout sheet
+export const SCHEMA_VERSION_METADATA_KEY = 'fittracker.schemaVersion';
+
+export const SHEET_COLUMNS: SheetColumn[] = [
+  { key: 'date', header: 'Date' },
+  { key: 'exerciseName', header: 'Exercise Name', aliases: ['Exercise'] },
+  { key: 'muscleGroup', header: 'Muscle Group', aliases: ['Muscle'] },
+  { key: 'setNumber', header: 'Set Number', aliases: ['Set', 'Set #'] },
+  { key: 'reps', header: 'Reps', aliases: ['Repetitions'] },
+  { key: 'weight', header: 'Weight', aliases: ['Weight (kg)', 'Weight (lb)', 'Weight (lbs)'] },
+  { key: 'difficulty', header: 'Difficulty Level', aliases: ['Difficulty', 'Level'] },
+  { key: 'notes', header: 'Notes', aliases: ['Note'] },
+  { key: 'logId', header: 'Log ID' },
+  { key: 'setId', header: 'Set ID' },
+  { key: 'exerciseId', header: 'Exercise ID' },
+  { key: 'createdAt', header: 'Created At' },
+  { key: 'updatedAt', header: 'Updated At' },
+  { key: 'setType', header: 'Set Type', aliases: ['Type'] },
+  { key: 'rpe', header: 'RPE' },
+  { key: 'rir', header: 'RIR', aliases: ['Reps In Reserve'] },
+  { key: 'sessionNotes', header: 'Session Notes', aliases: ['Session Note'] },
+  { key: 'unit', header: 'Unit', aliases: ['Weight Unit'] },
+  { key: 'sessionId', header: 'Session ID' },
+  { key: 'timeUnderTension', header: 'Time Under Tension (s)', aliases: ['Time Under Tension', 'TUT'] },
+  { key: 'personalRecords', header: 'Personal Records', aliases: ['PR', 'PRs'] },
+  { key: 'substitutedFor', header: 'Substituted For', aliases: ['Substitute For'] },
+];
+
+/**
+ * Every schema change is a migration listing the columns it introduces.
+ * Older sheets are upgraded by appending the missing headers in order.
+ */
+export const SHEET_MIGRATIONS: SheetMigration[] = [
+  {
+    version: 1,
+    description: 'Original workout columns',
+    addColumns: ['date', 'exerciseName', 'muscleGroup', 'setNumber', 'reps', 'weight', 'difficulty', 'notes'],
+  },
+  {
+    version: 2,
+    description: 'Log, set and exercise ids with timestamps',
+    addColumns: ['logId', 'setId', 'exerciseId', 'createdAt', 'updatedAt'],
+  },
+  {
+    version: 3,
+    description: 'Set type, RPE, RIR and session notes',
+    addColumns: ['setType', 'rpe', 'rir', 'sessionNotes'],
+  },
+  {
+    version: 4,
+    description: 'Weight unit per set',
+    addColumns: ['unit'],
+  },
+  {
+    version: 5,
+    description: 'Workout session id',
+    addColumns: ['sessionId'],
+  },
+  {
+    version: 6,
+    description: 'Time under tension per set',
+    addColumns: ['timeUnderTension'],
+  },
+  {
+    version: 7,
+    description: 'Personal records set by the log',
+    addColumns: ['personalRecords'],
+  },
+  {
+    version: 8,
+    description: 'Planned exercise a substitute was swapped in for',
+    addColumns: ['substitutedFor'],
+  },
+];
+
+export const SHEET_SCHEMA_VERSION = SHEET_MIGRATIONS[SHEET_MIGRATIONS.length - 1].version;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+const columnsByHeader = new Map<string, SheetColumnKey>(
+  SHEET_COLUMNS.flatMap(column =>
+    [column.header, ...(column.aliases || [])].map(header => [normalizeHeader(header), column.key] as const)
+  )
+);
+
+export const getColumn = (key: SheetColumnKey) => SHEET_COLUMNS.find(column => column.key === key);
+
+// Zero-based column index to A1 notation letters (0 -> A, 26 -> AA)
+export const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+/**
+ * Maps schema columns to their position in the sheet by header name, so
+ * reordered, renamed-by-alias or extra columns do not break reading.
+ */
+export const buildHeaderMap = (headers: string[]): SheetHeaderMap => {
+  const map: SheetHeaderMap = {};
+  headers.forEach((header, index) => {
+    const key = columnsByHeader.get(normalizeHeader(String(header ?? '')));
+    if (key && map[key] === undefined) map[key] = index;
+  });
+  return map;
+};
+
+export const defaultHeaderMap = (): SheetHeaderMap =>
+  buildHeaderMap(SHEET_COLUMNS.map(column => column.header));
+
+// Highest version whose columns are all present, for sheets without stored version
+export const detectSchemaVersion = (headers: string[]): number => {
+  const headerMap = buildHeaderMap(headers);
+  let version = 0;
+  for (const migration of SHEET_MIGRATIONS) {
+    if (!migration.addColumns.every(key => headerMap[key] !== undefined)) break;
+    version = migration.version;
+  }
+  return version;
+};
+
+/**
+ * Header row after applying every migration newer than `fromVersion`.
+ * Existing headers keep their position; missing ones are appended.
+ */
+export const migrateHeaders = (headers: string[], fromVersion: number): string[] => {
+  const migrated = [...headers];
+  const headerMap = buildHeaderMap(migrated);
+
+  SHEET_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .flatMap(migration => migration.addColumns)
+    .forEach(key => {
+      if (headerMap[key] !== undefined) return;
+      headerMap[key] = migrated.length;
+      migrated.push(getColumn(key).header);
+    });
+
+  return migrated;
+};
+
+// Places values by header position; `existing` keeps cells of columns outside the schema
+export const toSheetRow = (
+  values: Partial<Record<SheetColumnKey, string>>,
+  headerMap: SheetHeaderMap,
+  existing: string[] = []
+): string[] => {
+  const width = Math.max(existing.length, ...Object.values(headerMap).map(index => index + 1));
+  const row = Array.from({ length: width }, (_, index) => existing[index] ?? '');
+  (Object.keys(values) as SheetColumnKey[]).forEach(key => {
+    const index = headerMap[key];
+    if (index !== undefined) row[index] = values[key] ?? '';
+  });
+  return row;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { GoogleSheetsService } from '@/services/googleSheets';
+import { mergeWorkoutLogs, reconcileWorkoutLogs, syncWorkouts } from '@/services/syncEngine';
+import { InMemoryWorkoutRepository } from '@/services/workoutRepository';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+// The same log edited on this device and, differently, in the sheet
+const local = makeWorkoutLog({ id: 'edited', difficulty: 'intermediate', sets: [{ reps: 10, weight: 60, unit: 'kg' }] });
+const remote = makeWorkoutLog({ id: 'edited', sets: [{ reps: 8, weight: 65, unit: 'kg' }] });
+
+describe('reconcileWorkoutLogs', () => {
+  it('sorts logs into local-only, remote-only and conflicting edits', () => {
+    const localOnly = makeWorkoutLog({ id: 'local-only' });
+    const remoteOnly = makeWorkoutLog({ id: 'remote-only' });
+    const same = makeWorkoutLog({ id: 'same' });
+
+    expect(reconcileWorkoutLogs([local, localOnly, same], [remote, remoteOnly, same])).toEqual({
+      localOnly: [localOnly],
+      remoteOnly: [remoteOnly],
+      modified: [{ local, remote }],
+    });
+  });
+
+  it('treats sets without a unit as kilograms', () => {
+    const legacy = makeWorkoutLog({ id: 'legacy', sets: [{ reps: 5, weight: 100 }] });
+    const withUnit = { ...legacy, sets: legacy.sets.map(set => ({ ...set, unit: 'kg' as const })) };
+
+    expect(reconcileWorkoutLogs([legacy], [withUnit]).modified).toEqual([]);
+  });
+});
+
+describe('mergeWorkoutLogs', () => {
+  it('lets the sheet win a conflicting edit but keeps fields it left blank', () => {
+    const [merged] = mergeWorkoutLogs([remote], [local]);
+
+    expect(merged.sets).toEqual(remote.sets);
+    expect(merged.difficulty).toBe('intermediate');
+  });
+
+  it('holds every log once', () => {
+    const localOnly = makeWorkoutLog({ id: 'local-only' });
+
+    expect(mergeWorkoutLogs([remote], [local, localOnly]).map(log => log.id)).toEqual(['edited', 'local-only']);
+  });
+});
+
+describe('syncWorkouts', () => {
+  it('replaces a conflicting local edit with the sheet version and reports it', async () => {
+    const repository = new InMemoryWorkoutRepository([local]);
+    const service = { getSheetWorkouts: async () => [remote] } as unknown as GoogleSheetsService;
+
+    const report = await syncWorkouts(service, repository);
+
+    expect(report.conflicts).toEqual([expect.objectContaining({ logId: 'edited', type: 'modified', local, remote })]);
+    expect(report.pushed).toEqual([]);
+    expect((await repository.list())[0].sets).toEqual(remote.sets);
+  });
+});
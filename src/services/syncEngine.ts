@@ -0,0 +1,142 @@
+import { WorkoutLog, WorkoutSet } from '@/data/exercises';
+import { apiLogger } from '@/lib/apiLogger';
+import type { GoogleSheetsService } from '@/services/googleSheets';
+import { syncOutbox } from '@/services/syncOutbox';
+import type { WorkoutRepository } from '@/services/workoutRepository';
+
+export type SyncConflictType = 'modified' | 'deleted-remotely';
+
+export interface SyncConflict {
+  logId: string;
+  type: SyncConflictType;
+  local: WorkoutLog;
+  remote?: WorkoutLog;
+  resolution: string;
+}
+
+export interface SyncReport {
+  syncedAt: number; // epoch ms
+  pushed: WorkoutLog[];
+  pulled: WorkoutLog[];
+  conflicts: SyncConflict[];
+}
+
+export interface ReconcileResult {
+  localOnly: WorkoutLog[];
+  remoteOnly: WorkoutLog[];
+  modified: { local: WorkoutLog; remote: WorkoutLog }[];
+}
+
+const setEqual = (a: WorkoutSet, b: WorkoutSet) =>
+  a.reps === b.reps &&
+  a.weight === b.weight &&
+  (a.unit || 'kg') === (b.unit || 'kg') &&
+  (a.type || 'working') === (b.type || 'working') &&
+  a.rpe === b.rpe &&
+  a.rir === b.rir &&
+  (a.notes || '') === (b.notes || '');
+
+const setsEqual = (a: WorkoutLog, b: WorkoutLog) =>
+  (a.notes || '') === (b.notes || '') &&
+  a.sets.length === b.sets.length &&
+  a.sets.every((set, index) => setEqual(set, b.sets[index]));
+
+// Keep fields the sheet row left blank from the local copy
+const mergeLog = (remote: WorkoutLog, local?: WorkoutLog): WorkoutLog =>
+  local ? { ...local, ...remote, difficulty: remote.difficulty || local.difficulty } : remote;
+
+export const reconcileWorkoutLogs = (local: WorkoutLog[], remote: WorkoutLog[]): ReconcileResult => {
+  const localById = new Map(local.map(log => [log.id, log]));
+  const remoteById = new Map(remote.map(log => [log.id, log]));
+
+  const result: ReconcileResult = { localOnly: [], remoteOnly: [], modified: [] };
+
+  localById.forEach((log, id) => {
+    const remoteLog = remoteById.get(id);
+    if (!remoteLog) {
+      result.localOnly.push(log);
+    } else if (!setsEqual(log, remoteLog)) {
+      result.modified.push({ local: log, remote: remoteLog });
+    }
+  });
+
+  remoteById.forEach((log, id) => {
+    if (!localById.has(id)) result.remoteOnly.push(log);
+  });
+
+  return result;
+};
+
+/**
+ * Union of sheet and local logs without duplicates. The sheet wins when both
+ * hold the same log.
+ */
+export const mergeWorkoutLogs = (remote: WorkoutLog[], local: WorkoutLog[]): WorkoutLog[] => {
+  const localById = new Map(local.map(log => [log.id, log]));
+  const remoteIds = new Set(remote.map(log => log.id));
+
+  return [
+    ...remote.map(log => mergeLog(log, localById.get(log.id))),
+    ...local.filter(log => !remoteIds.has(log.id)),
+  ];
+};
+
+/**
+ * Stores sheet logs the local repository does not hold yet, marked synced so
+ * they are never pushed back. Returns the logs it stored.
+ */
+export const pullRemoteLogs = async (local: WorkoutRepository, localLogs: WorkoutLog[], remoteLogs: WorkoutLog[]) => {
+  const localIds = new Set(localLogs.map(log => log.id));
+  const pulled = remoteLogs.filter(log => !localIds.has(log.id));
+
+  for (const log of pulled) {
+    await local.save(log);
+    syncOutbox.markSynced(log.id);
+  }
+  return pulled;
+};
+
+/**
+ * Two-way sync between the local repository and the spreadsheet: local-only
+ * logs are pushed through the outbox, remote-only logs are pulled down and
+ * logs that differ are overwritten locally with the sheet version.
+ */
+export const syncWorkouts = async (
+  service: GoogleSheetsService,
+  local: WorkoutRepository = service.getLocalRepository()
+): Promise<SyncReport> => {
+  const [localLogs, remoteLogs] = await Promise.all([local.list(), service.getSheetWorkouts()]);
+  const { localOnly, modified } = reconcileWorkoutLogs(localLogs, remoteLogs);
+  const report: SyncReport = { syncedAt: Date.now(), pushed: [], pulled: [], conflicts: [] };
+
+  for (const log of localOnly) {
+    if (syncOutbox.getState(log.id) === 'synced') {
+      // It reached the sheet before, so someone removed the rows by hand
+      report.conflicts.push({ logId: log.id, type: 'deleted-remotely', local: log, resolution: 'Kept locally, not re-uploaded' });
+      continue;
+    }
+    syncOutbox.enqueue(log);
+    report.pushed.push(log);
+  }
+
+  report.pulled = await pullRemoteLogs(local, localLogs, remoteLogs);
+
+  for (const { local: localLog, remote: remoteLog } of modified) {
+    await local.update(localLog.id, mergeLog(remoteLog, localLog));
+    report.conflicts.push({ logId: localLog.id, type: 'modified', local: localLog, remote: remoteLog, resolution: 'Replaced local copy with the sheet version' });
+  }
+
+  if (report.pushed.length > 0) {
+    await syncOutbox.flush(service, { force: true });
+  }
+
+  apiLogger.log({
+    status: report.conflicts.length > 0 ? 'info' : 'success',
+    source: 'SyncEngine',
+    action: 'syncWorkouts',
+    message: `Pushed ${report.pushed.length}, pulled ${report.pulled.length}, ${report.conflicts.length} conflict${report.conflicts.length === 1 ? '' : 's'}`,
+    meta: { local: localLogs.length, remote: remoteLogs.length }
+  });
+
+  return report;
+};
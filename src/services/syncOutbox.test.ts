@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WorkoutLog } from '@/data/exercises';
+import type { GoogleSheetsService } from '@/services/googleSheets';
+import { syncOutbox } from '@/services/syncOutbox';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+// A writable sheet whose append runs `duringAppend` before it resolves
+const createService = (duringAppend: (log: WorkoutLog) => void = () => {}) => {
+  const rows = new Map<string, WorkoutLog>();
+  const service = {
+    canWrite: () => true,
+    hasWorkout: vi.fn(async (log: WorkoutLog) => rows.has(log.id)),
+    appendWorkout: vi.fn(async (log: WorkoutLog) => {
+      rows.set(log.id, log);
+      duringAppend(log);
+    }),
+    updateWorkout: vi.fn(async (log: WorkoutLog) => {
+      rows.set(log.id, log);
+      return true;
+    }),
+    deleteWorkout: vi.fn(async (logId: string) => rows.delete(logId)),
+  };
+  return { rows, service, sheet: service as unknown as GoogleSheetsService };
+};
+
+describe('syncOutbox', () => {
+  beforeEach(() => {
+    syncOutbox.getEntries().forEach(entry => syncOutbox.remove(entry.logId));
+  });
+
+  it('appends queued logs and marks them synced', async () => {
+    const log = makeWorkoutLog();
+    const { rows, sheet } = createService();
+    syncOutbox.enqueue(log);
+
+    expect(await syncOutbox.flush(sheet)).toBe(1);
+    expect(rows.get(log.id)).toEqual(log);
+    expect(syncOutbox.getState(log.id)).toBe('synced');
+  });
+
+  it('keeps an edit made during the append queued and writes it on the next replay', async () => {
+    const log = makeWorkoutLog();
+    const edited = { ...log, notes: 'Felt strong' };
+    const { rows, service, sheet } = createService(() => syncOutbox.replace(edited));
+    syncOutbox.enqueue(log);
+
+    expect(await syncOutbox.flush(sheet, { force: true })).toBe(0);
+    expect(syncOutbox.getState(log.id)).toBe('pending');
+
+    expect(await syncOutbox.flush(sheet, { force: true })).toBe(1);
+    expect(service.appendWorkout).toHaveBeenCalledTimes(1);
+    expect(rows.get(log.id)).toEqual(edited);
+  });
+
+  it('skips entries removed before their turn', async () => {
+    const first = makeWorkoutLog();
+    const second = makeWorkoutLog();
+    const { rows, sheet } = createService(() => syncOutbox.remove(second.id));
+    syncOutbox.enqueue(first);
+    syncOutbox.enqueue(second);
+
+    await syncOutbox.flush(sheet);
+
+    expect(rows.has(first.id)).toBe(true);
+    expect(rows.has(second.id)).toBe(false);
+  });
+
+  it('removes the rows of a log deleted while it was being appended', async () => {
+    const log = makeWorkoutLog();
+    const { rows, service, sheet } = createService(() => syncOutbox.remove(log.id));
+    syncOutbox.enqueue(log);
+
+    expect(await syncOutbox.flush(sheet)).toBe(0);
+    expect(service.deleteWorkout).toHaveBeenCalledWith(log.id);
+    expect(rows.has(log.id)).toBe(false);
+    expect(syncOutbox.getState(log.id)).toBe('local');
+  });
+});
@@ -0,0 +1,207 @@
+import { WorkoutLog, ensureWorkoutLogIds } from '@/data/exercises';
+import { apiLogger } from '@/lib/apiLogger';
+import type { GoogleSheetsService } from '@/services/googleSheets';
+
+export type SyncState = 'pending' | 'synced' | 'local';
+
+export interface OutboxEntry {
+  logId: string;
+  log: WorkoutLog;
+  attempts: number;
+  queuedAt: number; // epoch ms
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+}
+
+const STORAGE_KEY = 'workout_outbox';
+const SYNCED_STORAGE_KEY = 'workout_synced_ids';
+const MAX_SYNCED_IDS = 500;
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+const POLL_INTERVAL_MS = 15_000;
+
+let entries: OutboxEntry[] = [];
+let syncedIds: string[] = [];
+let flushing: Promise<number> | null = null;
+
+try {
+  const saved: OutboxEntry[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  // Entries queued before logs had ids are re-keyed by their derived id
+  entries = saved.map((entry) => {
+    const log = ensureWorkoutLogIds(entry.log);
+    return { ...entry, logId: log.id, log };
+  });
+  syncedIds = JSON.parse(localStorage.getItem(SYNCED_STORAGE_KEY) || '[]');
+} catch {
+  entries = [];
+  syncedIds = [];
+}
+
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+
+function persist() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    localStorage.setItem(SYNCED_STORAGE_KEY, JSON.stringify(syncedIds.slice(-MAX_SYNCED_IDS)));
+  } catch (e) {
+    // ignore storage errors
+  }
+}
+
+function emit() {
+  const snapshot = [...entries];
+  listeners.forEach((cb) => cb(snapshot));
+}
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+
+async function replayEntry(service: GoogleSheetsService, entry: OutboxEntry) {
+  // A previous attempt may have reached the sheet before failing, so its rows
+  // get the queued version instead of a second append
+  if (await service.hasWorkout(entry.log)) {
+    await service.updateWorkout(entry.log);
+  } else {
+    await service.appendWorkout(entry.log);
+  }
+}
+
+const findEntry = (logId: string) => entries.find((entry) => entry.logId === logId);
+
+/**
+ * Persistent queue of workout logs that still have to be appended to Google
+ * Sheets. Each log is queued once by id and leaves the queue only after the
+ * sheet holds its rows.
+ */
+export const syncOutbox = {
+  enqueue(log: WorkoutLog, lastError?: string) {
+    if (syncedIds.includes(log.id) || entries.some((entry) => entry.logId === log.id)) return;
+
+    const now = Date.now();
+    entries.push({ logId: log.id, log, attempts: 0, queuedAt: now, nextAttemptAt: now, lastError });
+    persist();
+    emit();
+  },
+  markSynced(logId: string) {
+    entries = entries.filter((entry) => entry.logId !== logId);
+    if (!syncedIds.includes(logId)) syncedIds = [...syncedIds, logId].slice(-MAX_SYNCED_IDS);
+    persist();
+    emit();
+  },
+  // Edits to a log that has not reached the sheet yet go out with the queued write
+  replace(log: WorkoutLog) {
+    if (!entries.some((entry) => entry.logId === log.id)) return false;
+
+    entries = entries.map((entry) => (entry.logId === log.id ? { ...entry, log } : entry));
+    persist();
+    emit();
+    return true;
+  },
+  remove(logId: string) {
+    if (!entries.some((entry) => entry.logId === logId)) return false;
+
+    entries = entries.filter((entry) => entry.logId !== logId);
+    persist();
+    emit();
+    return true;
+  },
+  getEntries() {
+    return [...entries];
+  },
+  getState(logId: string): SyncState {
+    if (entries.some((entry) => entry.logId === logId)) return 'pending';
+    return syncedIds.includes(logId) ? 'synced' : 'local';
+  },
+  subscribe(cb: (entries: OutboxEntry[]) => void) {
+    listeners.add(cb);
+    const unsubscribe = () => { listeners.delete(cb); };
+    return unsubscribe;
+  },
+  flush(service: GoogleSheetsService, { force = false }: { force?: boolean } = {}) {
+    // Serialize replays so two triggers never append the same entry twice
+    if (!flushing) {
+      flushing = this.replayDue(service, force).finally(() => { flushing = null; });
+    }
+    return flushing;
+  },
+  async replayDue(service: GoogleSheetsService, force: boolean) {
+    if (!service.canWrite()) return 0;
+
+    const now = Date.now();
+    const due = entries.filter((entry) => force || entry.nextAttemptAt <= now).map((entry) => entry.logId);
+    let synced = 0;
+
+    for (const logId of due) {
+      // Entries can be edited or removed while earlier ones are being written
+      const entry = findEntry(logId);
+      if (!entry) continue;
+
+      try {
+        await replayEntry(service, entry);
+        const latest = findEntry(logId);
+        if (!latest) {
+          // Deleted while its rows were being written, so nothing else removes them
+          await service.deleteWorkout(logId);
+        } else if (latest.log === entry.log) {
+          this.markSynced(logId);
+          synced++;
+        }
+        // An edit queued meanwhile stays in the outbox and goes out on the next replay
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const message = error instanceof Error ? error.message : 'Failed to replay workout';
+        entries = entries.map((existing) => existing.logId === logId
+          ? { ...existing, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts), lastError: message }
+          : existing
+        );
+        persist();
+        emit();
+        apiLogger.log({
+          status: 'error',
+          source: 'SyncOutbox',
+          action: 'replay',
+          message: `Retry ${attempts} failed for ${entry.log.exerciseName}: ${message}`,
+          meta: { logId, nextAttemptInMs: getRetryDelay(attempts) }
+        });
+      }
+    }
+
+    if (synced > 0) {
+      apiLogger.log({
+        status: 'success',
+        source: 'SyncOutbox',
+        action: 'replay',
+        message: `Synced ${synced} queued workout${synced === 1 ? '' : 's'} to Google Sheets`,
+        meta: { remaining: entries.length }
+      });
+    }
+
+    return synced;
+  },
+};
+
+/**
+ * Replays the outbox whenever the browser comes back online or the Google
+ * token becomes valid, and otherwise polls for entries whose backoff elapsed.
+ * Returns a function that stops replaying.
+ */
+export const startOutboxReplay = (service: GoogleSheetsService) => {
+  let wasWritable = service.canWrite();
+
+  const handleOnline = () => { void syncOutbox.flush(service, { force: true }); };
+  window.addEventListener('online', handleOnline);
+
+  const timer = window.setInterval(() => {
+    if (!navigator.onLine) return;
+    const writable = service.canWrite();
+    void syncOutbox.flush(service, { force: writable && !wasWritable });
+    wasWritable = writable;
+  }, POLL_INTERVAL_MS);
+
+  void syncOutbox.flush(service);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.clearInterval(timer);
+  };
+};
@@ -0,0 +1,217 @@
+import { Exercise, WorkoutLog, findExerciseById } from '@/data/exercises';
+import { createId } from '@/lib/ids';
+import { estimateOneRepMax, type OneRepMaxFormula } from '@/lib/oneRepMax';
+import { roundToPlate, setWeightIn, type WeightUnit } from '@/lib/units';
+
+export interface ProgramExercise {
+  id: string;
+  exerciseId: string;
+  sets: number;
+  reps: string; // same free text as the catalog, e.g. "8-12" or "30 seconds"
+  intensity?: number; // percent of estimated one-rep max
+}
+
+export interface ProgramDay {
+  id: string;
+  name: string;
+  exercises: ProgramExercise[];
+}
+
+export interface ProgramWeek {
+  id: string;
+  deload: boolean;
+  days: ProgramDay[];
+}
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  description?: string;
+  weeks: ProgramWeek[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProgramAssignment {
+  programId: string;
+  startedAt: string;
+  completedDayIds: string[];
+}
+
+export interface ScheduledDay {
+  program: TrainingProgram;
+  week: ProgramWeek;
+  day: ProgramDay;
+  weekNumber: number;
+  dayNumber: number;
+  completedDays: number;
+  totalDays: number;
+}
+
+export interface ProgramsState {
+  programs: TrainingProgram[];
+  active: ProgramAssignment | null;
+}
+
+const STORAGE_KEY = 'training_programs';
+// Deload weeks copy the previous week with fewer sets at a lighter intensity
+const DELOAD_SET_FACTOR = 0.5;
+const DELOAD_INTENSITY_FACTOR = 0.9;
+// Best estimated max is taken from this many recent logs
+const INTENSITY_LOOKBACK_LOGS = 5;
+
+let state: ProgramsState = { programs: [], active: null };
+
+try {
+  state = { ...state, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+} catch {
+  state = { programs: [], active: null };
+}
+
+const listeners = new Set<(state: ProgramsState) => void>();
+
+function persist() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    // ignore storage errors
+  }
+}
+
+function emit() {
+  const snapshot = { ...state };
+  listeners.forEach((cb) => cb(snapshot));
+}
+
+function setState(next: ProgramsState) {
+  state = next;
+  persist();
+  emit();
+}
+
+export const createProgramDay = (name: string): ProgramDay => ({ id: createId(), name, exercises: [] });
+
+export const createProgramWeek = (): ProgramWeek => ({ id: createId(), deload: false, days: [createProgramDay('Day 1')] });
+
+export const createProgram = (): TrainingProgram => {
+  const now = new Date().toISOString();
+  return { id: createId(), name: '', weeks: [createProgramWeek()], createdAt: now, updatedAt: now };
+};
+
+/**
+ * Copies a week with fresh ids. A deload copy halves the sets (rounding up)
+ * and lightens any intensity.
+ */
+export const copyProgramWeek = (week: ProgramWeek, deload = week.deload): ProgramWeek => ({
+  id: createId(),
+  deload,
+  days: week.days.map((day) => ({
+    ...day,
+    id: createId(),
+    exercises: day.exercises.map((entry) => ({
+      ...entry,
+      id: createId(),
+      ...(deload && !week.deload && {
+        sets: Math.max(1, Math.ceil(entry.sets * DELOAD_SET_FACTOR)),
+        ...(entry.intensity && { intensity: Math.round(entry.intensity * DELOAD_INTENSITY_FACTOR) }),
+      }),
+    })),
+  })),
+});
+
+/**
+ * User-defined multi-week programs and the one being followed. Days are
+ * done in order, so a missed training day shifts the plan rather than
+ * skipping it.
+ */
+export const trainingPrograms = {
+  getPrograms() {
+    return [...state.programs];
+  },
+  getActive() {
+    return state.active;
+  },
+  save(program: TrainingProgram) {
+    const saved = { ...program, updatedAt: new Date().toISOString() };
+    const exists = state.programs.some((existing) => existing.id === program.id);
+    setState({
+      ...state,
+      programs: exists
+        ? state.programs.map((existing) => (existing.id === program.id ? saved : existing))
+        : [...state.programs, saved],
+    });
+  },
+  remove(programId: string) {
+    setState({
+      programs: state.programs.filter((program) => program.id !== programId),
+      active: state.active?.programId === programId ? null : state.active,
+    });
+  },
+  activate(programId: string) {
+    setState({ ...state, active: { programId, startedAt: new Date().toISOString(), completedDayIds: [] } });
+  },
+  deactivate() {
+    setState({ ...state, active: null });
+  },
+  completeDay(dayId: string) {
+    if (!state.active || state.active.completedDayIds.includes(dayId)) return;
+    setState({ ...state, active: { ...state.active, completedDayIds: [...state.active.completedDayIds, dayId] } });
+  },
+  subscribe(cb: (state: ProgramsState) => void) {
+    listeners.add(cb);
+    const unsubscribe = () => { listeners.delete(cb); };
+    return unsubscribe;
+  },
+};
+
+/**
+ * The first day of the active program that has not been completed, or null
+ * when no program is active or every day is done.
+ */
+export function getScheduledDay(programs: TrainingProgram[], active: ProgramAssignment | null): ScheduledDay | null {
+  const program = active && programs.find((existing) => existing.id === active.programId);
+  if (!program) return null;
+
+  const days = program.weeks.flatMap((week, weekIndex) =>
+    week.days.map((day, dayIndex) => ({ week, day, weekNumber: weekIndex + 1, dayNumber: dayIndex + 1 }))
+  );
+  const next = days.find(({ day }) => !active.completedDayIds.includes(day.id));
+  if (!next) return null;
+
+  return {
+    program,
+    ...next,
+    completedDays: days.filter(({ day }) => active.completedDayIds.includes(day.id)).length,
+    totalDays: days.length,
+  };
+}
+
+export const isProgramFinished = (programs: TrainingProgram[], active: ProgramAssignment | null) =>
+  !!active && programs.some((program) => program.id === active.programId) && !getScheduledDay(programs, active);
+
+// The catalog exercise with the program's prescription in place of its own
+export function toProgramExercise(entry: ProgramExercise): Exercise | null {
+  const exercise = findExerciseById(entry.exerciseId);
+  return exercise ? { ...exercise, sets: String(entry.sets), reps: entry.reps } : null;
+}
+
+/**
+ * Working weight for an intensity from the best estimated one-rep max in the
+ * exercise's recent logs, or 0 when there is nothing to estimate from.
+ */
+export function weightForIntensity(
+  intensity: number,
+  logs: WorkoutLog[],
+  unit: WeightUnit,
+  formula: OneRepMaxFormula = 'epley'
+) {
+  const oneRepMax = Math.max(0, ...logs
+    .slice()
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, INTENSITY_LOOKBACK_LOGS)
+    .flatMap((log) => log.sets
+      .filter((set) => set.type !== 'warmup')
+      .map((set) => estimateOneRepMax(setWeightIn(set, unit), set.reps, formula))));
+
+  return oneRepMax > 0 ? roundToPlate(oneRepMax * intensity / 100, unit) : 0;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { EXERCISE_CATALOG, findExerciseById } from '@/data/exercises';
+import { isExerciseAvailable } from '@/services/equipmentProfiles';
+import { createGeneratedProgram, estimateWorkoutMinutes, generateWorkout } from '@/services/workoutGenerator';
+import type { ProgramExercise } from '@/services/trainingPrograms';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+const entry = (id: string, exerciseId: string): ProgramExercise => ({ id, exerciseId, sets: 3, reps: '8-12' });
+
+const muscleGroupsOf = (entries: ProgramExercise[]) =>
+  entries.map(entry => findExerciseById(entry.exerciseId)?.muscleGroup);
+
+// Four heavy bench press sessions this week
+const benchWeek = Array.from({ length: 4 }, () => makeWorkoutLog({
+  exerciseId: 'chest-4',
+  sets: Array.from({ length: 4 }, () => ({ reps: 5, weight: 100, unit: 'kg' as const })),
+}));
+
+describe('generateWorkout', () => {
+  const options = { muscleGroups: ['chest' as const, 'legs' as const], minutes: 30, difficulty: 'beginner' as const };
+
+  it('spreads a session between the target groups without recent history', () => {
+    const groups = muscleGroupsOf(generateWorkout(options, EXERCISE_CATALOG, [], () => 0));
+
+    expect(groups).toContain('chest');
+    expect(groups).toContain('legs');
+  });
+
+  it('favours the group that recent sessions left under-trained', () => {
+    const groups = muscleGroupsOf(generateWorkout(options, EXERCISE_CATALOG, benchWeek, () => 0));
+
+    expect(groups.length).toBeGreaterThan(0);
+    expect(groups.every(group => group === 'legs')).toBe(true);
+  });
+
+  it('stays within the time budget', () => {
+    const entries = generateWorkout({ ...options, minutes: 15 }, EXERCISE_CATALOG, [], () => 0);
+
+    expect(estimateWorkoutMinutes(entries)).toBeLessThanOrEqual(15);
+  });
+
+  it('only picks exercises the available equipment allows', () => {
+    const catalog = EXERCISE_CATALOG.filter(exercise => isExerciseAvailable(exercise, ['dumbbell', 'bench']));
+    const entries = generateWorkout({ ...options, muscleGroups: ['chest'] }, catalog, [], () => 0);
+
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach(entry => {
+      expect(isExerciseAvailable(findExerciseById(entry.exerciseId)!, ['dumbbell', 'bench'])).toBe(true);
+    });
+    expect(entries.map(entry => entry.exerciseId)).not.toContain('chest-4');
+  });
+});
+
+describe('createGeneratedProgram', () => {
+  it('builds a one-day program holding the generated exercises', () => {
+    const program = createGeneratedProgram('Chest (45 min)', [entry('a', 'chest-3')]);
+
+    expect(program.name).toBe('Chest (45 min)');
+    expect(program.weeks).toHaveLength(1);
+    expect(program.weeks[0].days).toHaveLength(1);
+    expect(program.weeks[0].days[0].exercises.map(exercise => exercise.exerciseId)).toEqual(['chest-3']);
+  });
+
+  it('keeps the ids of the program built for the same session', () => {
+    const first = createGeneratedProgram('Chest (45 min)', [entry('a', 'chest-3')]);
+    const edited = createGeneratedProgram('Push day', [entry('a', 'chest-3'), entry('b', 'shoulders-1')], first);
+
+    expect(edited.id).toBe(first.id);
+    expect(edited.weeks[0].days[0].id).toBe(first.weeks[0].days[0].id);
+    expect(edited.name).toBe('Push day');
+    expect(edited.weeks[0].days[0].exercises).toHaveLength(2);
+  });
+});
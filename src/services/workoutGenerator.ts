@@ -0,0 +1,98 @@
+import { Exercise, WorkoutLog, findExerciseById } from '@/data/exercises';
+import { getMuscleGroupContributions, type MuscleGroup } from '@/data/exerciseTaxonomy';
+import { createId } from '@/lib/ids';
+import { getMuscleGroupSets } from '@/lib/muscleVolume';
+import { parsePrescription } from '@/lib/prescription';
+import { createProgram, type ProgramExercise, type TrainingProgram } from '@/services/trainingPrograms';
+
+export interface WorkoutGeneratorOptions {
+  muscleGroups: MuscleGroup[];
+  minutes: number;
+  difficulty: Exercise['difficulty'];
+}
+
+// A working set with its rest, plus the time to set up each exercise
+const MINUTES_PER_SET = 2.5;
+const TRANSITION_MINUTES = 1;
+// Volume from this far back counts towards what a muscle group has already had
+export const RECENT_VOLUME_DAYS = 7;
+
+const DIFFICULTY_RANK: Record<Exercise['difficulty'], number> = { beginner: 0, intermediate: 1, professional: 2 };
+
+export const estimateWorkoutMinutes = (exercises: Pick<ProgramExercise, 'sets'>[]) =>
+  Math.round(exercises.reduce((sum, entry) => sum + entry.sets * MINUTES_PER_SET + TRANSITION_MINUTES, 0));
+
+export const getRecentLogs = (logs: WorkoutLog[], now = new Date()) =>
+  logs.filter((log) => now.getTime() - new Date(log.date).getTime() <= RECENT_VOLUME_DAYS * 24 * 60 * 60_000);
+
+/**
+ * Picks the next exercise for a muscle group: the chosen difficulty before
+ * neighbouring tiers, a compound to open the group, then movement patterns
+ * the session doesn't have yet. `random` only breaks ties, so regenerating
+ * varies the picks without giving up those preferences.
+ */
+function pickExercise(group: MuscleGroup, catalog: Exercise[], chosen: Exercise[], difficulty: Exercise['difficulty'], random: () => number) {
+  const chosenInGroup = chosen.filter((exercise) => exercise.muscleGroup === group);
+  const candidates = catalog.filter((exercise) =>
+    exercise.muscleGroup === group && !chosen.some((other) => other.id === exercise.id));
+
+  const score = (exercise: Exercise) =>
+    -Math.abs(DIFFICULTY_RANK[exercise.difficulty] - DIFFICULTY_RANK[difficulty]) * 10
+    + (chosenInGroup.length === 0 && exercise.mechanics === 'compound' ? 4 : 0)
+    + (chosenInGroup.some((other) => other.movementPattern === exercise.movementPattern) ? 0 : 2)
+    + random();
+
+  return candidates
+    .map((exercise) => ({ exercise, score: score(exercise) }))
+    .sort((a, b) => b.score - a.score)[0]?.exercise || null;
+}
+
+/**
+ * Fills the time budget with exercises from `catalog`, always adding to the
+ * target muscle group with the fewest hard sets so far, counting what
+ * `recentLogs` already gave each group. Compounds come first in the result.
+ */
+export function generateWorkout(
+  options: WorkoutGeneratorOptions,
+  catalog: Exercise[],
+  recentLogs: WorkoutLog[],
+  random: () => number = Math.random
+): ProgramExercise[] {
+  const volume = getMuscleGroupSets(recentLogs);
+  const chosen: Exercise[] = [];
+  const entries: ProgramExercise[] = [];
+  let minutes = 0;
+
+  for (;;) {
+    const groups = [...options.muscleGroups].sort((a, b) => volume[a] - volume[b]);
+    const next = groups
+      .map((group) => pickExercise(group, catalog, chosen, options.difficulty, random))
+      .find((exercise) => exercise && minutes + estimateWorkoutMinutes([parsePrescription(exercise)]) <= options.minutes);
+    if (!next) break;
+
+    const { sets } = parsePrescription(next);
+    chosen.push(next);
+    entries.push({ id: createId(), exerciseId: next.id, sets, reps: next.reps });
+    minutes += estimateWorkoutMinutes([{ sets }]);
+    getMuscleGroupContributions(next).forEach(({ muscleGroup, share }) => {
+      volume[muscleGroup] += sets * share;
+    });
+  }
+
+  const isCompound = (entry: ProgramExercise) => findExerciseById(entry.exerciseId)?.mechanics === 'compound';
+  return [...entries.filter(isCompound), ...entries.filter((entry) => !isCompound(entry))];
+}
+
+// A one-day program holding a generated session, so it can be saved and run like any other.
+// Pass the program built for the same session to keep its ids.
+export function createGeneratedProgram(name: string, exercises: ProgramExercise[], existing?: TrainingProgram): TrainingProgram {
+  const program = existing || createProgram();
+  return {
+    ...program,
+    name,
+    weeks: program.weeks.map((week) => ({
+      ...week,
+      days: week.days.map((day) => ({ ...day, name, exercises })),
+    })),
+  };
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  InMemoryWorkoutRepository,
+  LocalStorageWorkoutRepository,
+  getLastWorkout,
+  type WorkoutRepository,
+} from '@/services/workoutRepository';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+const backends: [string, () => WorkoutRepository][] = [
+  ['InMemoryWorkoutRepository', () => new InMemoryWorkoutRepository()],
+  ['LocalStorageWorkoutRepository', () => new LocalStorageWorkoutRepository('workout_logs_test')],
+];
+
+describe.each(backends)('%s', (_name, createRepository) => {
+  let repository: WorkoutRepository;
+
+  beforeEach(() => {
+    localStorage.clear();
+    repository = createRepository();
+  });
+
+  it('starts empty', async () => {
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('lists saved logs in the order they were saved', async () => {
+    const first = makeWorkoutLog({ id: 'a' });
+    const second = makeWorkoutLog({ id: 'b', exerciseId: 'back-5' });
+
+    expect(await repository.save(first)).toEqual(first);
+    await repository.save(second);
+
+    expect(await repository.list()).toEqual([first, second]);
+  });
+
+  it('queries by muscle group, exercise and date range', async () => {
+    const chest = makeWorkoutLog({ id: 'a', date: '2024-03-01T10:00:00.000Z' });
+    const laterChest = makeWorkoutLog({ id: 'b', date: '2024-03-10T10:00:00.000Z' });
+    const back = makeWorkoutLog({ id: 'c', exerciseId: 'back-5', date: '2024-03-05T10:00:00.000Z' });
+    await Promise.all([chest, laterChest, back].map(log => repository.save(log)));
+
+    expect((await repository.query({ muscleGroup: 'back' })).map(log => log.id)).toEqual(['c']);
+    expect((await repository.query({ exerciseId: 'chest-4' })).map(log => log.id)).toEqual(['a', 'b']);
+    expect((await repository.query({
+      from: new Date('2024-03-02T00:00:00.000Z'),
+      to: new Date('2024-03-09T00:00:00.000Z'),
+    })).map(log => log.id)).toEqual(['c']);
+    expect(await repository.query({ muscleGroup: 'legs' })).toEqual([]);
+  });
+
+  it('updates a log in place and reports whether it existed', async () => {
+    await repository.save(makeWorkoutLog({ id: 'a' }));
+    await repository.save(makeWorkoutLog({ id: 'b' }));
+    const edited = makeWorkoutLog({ id: 'a', notes: 'felt strong', sets: [{ reps: 12, weight: 60, unit: 'kg' }] });
+
+    expect(await repository.update('a', edited)).toBe(true);
+    expect(await repository.update('missing', makeWorkoutLog({ id: 'missing' }))).toBe(false);
+    expect((await repository.list()).map(log => log.id)).toEqual(['a', 'b']);
+    expect((await repository.list())[0]).toEqual(edited);
+  });
+
+  it('deletes a log and reports whether it existed', async () => {
+    await repository.save(makeWorkoutLog({ id: 'a' }));
+    await repository.save(makeWorkoutLog({ id: 'b' }));
+
+    expect(await repository.delete('a')).toBe(true);
+    expect(await repository.delete('a')).toBe(false);
+    expect((await repository.list()).map(log => log.id)).toEqual(['b']);
+  });
+
+  it('finds the most recent log of an exercise', async () => {
+    await repository.save(makeWorkoutLog({ id: 'new', date: '2024-03-10T10:00:00.000Z' }));
+    await repository.save(makeWorkoutLog({ id: 'old', date: '2024-03-01T10:00:00.000Z' }));
+
+    expect((await getLastWorkout(repository, 'chest-4'))?.id).toBe('new');
+    expect(await getLastWorkout(repository, 'back-5')).toBeNull();
+  });
+});
+
+describe('InMemoryWorkoutRepository', () => {
+  it('assigns ids to seeded logs stored before ids existed', async () => {
+    const legacy = makeWorkoutLog({ id: '', createdAt: '', sets: [{ id: '', reps: 8, weight: 20 }] });
+    const [log] = await new InMemoryWorkoutRepository([legacy]).list();
+
+    expect(log.id).not.toBe('');
+    expect(log.createdAt).toBe(legacy.date);
+    expect(log.sets[0].id).toBe(`${log.id}-set-1`);
+  });
+
+  it('keeps seeded logs separate from the array it was given', async () => {
+    const seed = [makeWorkoutLog({ id: 'a' })];
+    const repository = new InMemoryWorkoutRepository(seed);
+    await repository.delete('a');
+
+    expect(seed).toHaveLength(1);
+  });
+});
+
+describe('LocalStorageWorkoutRepository', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fails the save when storage rejects the write', async () => {
+    localStorage.clear();
+    const repository = new LocalStorageWorkoutRepository('workout_logs_test');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+
+    await expect(repository.save(makeWorkoutLog({ id: 'a' }))).rejects.toThrow('Quota exceeded');
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('still reads older logs when their new ids cannot be stored', async () => {
+    localStorage.setItem('workout_logs_test', JSON.stringify([makeWorkoutLog({ id: '' })]));
+    const repository = new LocalStorageWorkoutRepository('workout_logs_test');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+
+    expect(await repository.list()).toHaveLength(1);
+  });
+});
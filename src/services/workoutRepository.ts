@@ -0,0 +1,299 @@
+import { WorkoutLog, ensureWorkoutLogIds } from '@/data/exercises';
+import { apiLogger } from '@/lib/apiLogger';
+import { syncOutbox } from '@/services/syncOutbox';
+import type { GoogleSheetsService } from '@/services/googleSheets';
+
+export interface WorkoutQuery {
+  muscleGroup?: string;
+  exerciseId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Single storage layer for workout logs. Components talk to a repository
+ * instead of reading `workout_logs` or calling Google Sheets directly.
+ */
+export interface WorkoutRepository {
+  readonly name: string;
+  save(log: WorkoutLog): Promise<WorkoutLog>;
+  list(): Promise<WorkoutLog[]>;
+  query(query: WorkoutQuery): Promise<WorkoutLog[]>;
+  update(id: string, log: WorkoutLog): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+const LOCAL_STORAGE_KEY = 'workout_logs';
+
+export const matchesQuery = (log: WorkoutLog, query: WorkoutQuery) => {
+  if (query.muscleGroup && log.muscleGroup !== query.muscleGroup) return false;
+  if (query.exerciseId && log.exerciseId !== query.exerciseId) return false;
+
+  const date = new Date(log.date);
+  if (query.from && date < query.from) return false;
+  if (query.to && date > query.to) return false;
+
+  return true;
+};
+
+// Most recent log of an exercise, used to prefill the logger
+export const getLastWorkout = async (repository: WorkoutRepository, exerciseId: string) => {
+  const logs = await repository.query({ exerciseId });
+  return logs.reduce<WorkoutLog | null>(
+    (latest, log) => (!latest || new Date(log.date) > new Date(latest.date) ? log : latest),
+    null
+  );
+};
+
+/**
+ * Shared behaviour for backends that load and store the whole log list at once.
+ */
+abstract class ListWorkoutRepository implements WorkoutRepository {
+  abstract readonly name: string;
+
+  protected abstract read(): WorkoutLog[];
+  protected abstract write(logs: WorkoutLog[]): void;
+
+  async save(log: WorkoutLog) {
+    this.write([...this.read(), log]);
+    return log;
+  }
+
+  async list() {
+    return this.read();
+  }
+
+  async query(query: WorkoutQuery) {
+    return this.read().filter(log => matchesQuery(log, query));
+  }
+
+  async update(id: string, log: WorkoutLog) {
+    const logs = this.read();
+    const index = logs.findIndex(existing => existing.id === id);
+    if (index === -1) return false;
+
+    logs[index] = log;
+    this.write(logs);
+    return true;
+  }
+
+  async delete(id: string) {
+    const logs = this.read();
+    const remaining = logs.filter(existing => existing.id !== id);
+    if (remaining.length === logs.length) return false;
+
+    this.write(remaining);
+    return true;
+  }
+}
+
+export class InMemoryWorkoutRepository extends ListWorkoutRepository {
+  readonly name = 'InMemory';
+  private logs: WorkoutLog[];
+
+  constructor(initialLogs: WorkoutLog[] = []) {
+    super();
+    this.logs = initialLogs.map(ensureWorkoutLogIds);
+  }
+
+  protected read() {
+    return [...this.logs];
+  }
+
+  protected write(logs: WorkoutLog[]) {
+    this.logs = [...logs];
+  }
+}
+
+export class LocalStorageWorkoutRepository extends ListWorkoutRepository {
+  readonly name = 'LocalStorage';
+
+  constructor(private storageKey = LOCAL_STORAGE_KEY) {
+    super();
+  }
+
+  protected read(): WorkoutLog[] {
+    try {
+      const existingLogs = localStorage.getItem(this.storageKey);
+      const logs: WorkoutLog[] = existingLogs ? JSON.parse(existingLogs) : [];
+      const normalized = logs.map(ensureWorkoutLogIds);
+
+      // Persist ids assigned to older logs so they stay stable. A failed write is
+      // already logged and must not hide the logs that were read.
+      if (normalized.some((log, index) => log !== logs[index])) {
+        try {
+          this.write(normalized);
+        } catch {
+          // Ids are assigned again on the next read
+        }
+      }
+      return normalized;
+    } catch (error) {
+      console.error('Error reading local workout history:', error);
+      apiLogger.log({
+        status: 'error',
+        source: 'LocalStorage',
+        action: 'getWorkoutHistory',
+        message: error instanceof Error ? error.message : 'Failed to read workout logs from localStorage',
+        meta: { error }
+      });
+      return [];
+    }
+  }
+
+  protected write(logs: WorkoutLog[]) {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(logs));
+    } catch (error) {
+      console.error('Error storing workout locally:', error);
+      apiLogger.log({
+        status: 'error',
+        source: 'LocalStorage',
+        action: 'storeWorkout',
+        message: error instanceof Error ? error.message : 'Failed to write workout logs to localStorage',
+        meta: { error }
+      });
+      // Callers report the failed save, e.g. when storage quota is exceeded
+      throw error;
+    }
+  }
+
+  async query(query: WorkoutQuery) {
+    const logs = this.read();
+    const result = logs.filter(log => matchesQuery(log, query));
+
+    apiLogger.log({
+      status: 'success',
+      source: 'LocalStorage',
+      action: 'getWorkoutHistory',
+      message: `Loaded ${result.length} workout logs from localStorage${query.muscleGroup ? ' (filtered)' : ''}.`,
+      meta: { total: logs.length, filtered: result.length, muscleGroup: query.muscleGroup || 'all' }
+    });
+
+    return result;
+  }
+}
+
+export class IndexedDbWorkoutRepository implements WorkoutRepository {
+  readonly name = 'IndexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName = 'fittracker', private storeName = LOCAL_STORAGE_KEY) {}
+
+  private open() {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(log: WorkoutLog) {
+    await this.run('readwrite', store => store.put(log, log.id));
+    return log;
+  }
+
+  async list() {
+    const logs = await this.run<WorkoutLog[]>('readonly', store => store.getAll());
+    return logs.map(ensureWorkoutLogIds);
+  }
+
+  async query(query: WorkoutQuery) {
+    const logs = await this.list();
+    return logs.filter(log => matchesQuery(log, query));
+  }
+
+  async update(id: string, log: WorkoutLog) {
+    const existing = await this.run<WorkoutLog | undefined>('readonly', store => store.get(id));
+    if (!existing) return false;
+
+    await this.run('readwrite', store => store.put({ ...log, id }, id));
+    return true;
+  }
+
+  async delete(id: string) {
+    const existing = await this.run<WorkoutLog | undefined>('readonly', store => store.get(id));
+    if (!existing) return false;
+
+    await this.run('readwrite', store => store.delete(id));
+    return true;
+  }
+}
+
+/**
+ * Reads and writes through GoogleSheetsService, which itself falls back to
+ * its local repository whenever the sheet cannot be reached.
+ */
+export class GoogleSheetsWorkoutRepository implements WorkoutRepository {
+  readonly name = 'GoogleSheets';
+
+  constructor(private service: GoogleSheetsService, private local: WorkoutRepository = service.getLocalRepository()) {}
+
+  async save(log: WorkoutLog) {
+    await this.service.logWorkout(log);
+    return log;
+  }
+
+  async list() {
+    return this.service.getWorkoutHistory();
+  }
+
+  async query(query: WorkoutQuery) {
+    const logs = await this.service.getWorkoutHistory(query.muscleGroup);
+    return logs.filter(log => matchesQuery(log, query));
+  }
+
+  async update(id: string, log: WorkoutLog) {
+    const updated = { ...log, id };
+
+    // Logs still waiting in the outbox have no rows yet, the queued write carries the edit
+    if (!syncOutbox.replace(updated)) {
+      await this.withSheet('edit', () => this.service.updateWorkout(updated));
+    }
+
+    if (!(await this.local.update(id, updated))) {
+      await this.local.save(updated);
+    }
+    return true;
+  }
+
+  async delete(id: string) {
+    let deleted = syncOutbox.remove(id);
+
+    if (!deleted) {
+      deleted = await this.withSheet('delete', () => this.service.deleteWorkout(id));
+    }
+
+    return (await this.local.delete(id)) || deleted;
+  }
+
+  // Anything not queued in the outbox may have rows in the sheet, and the next read would undo a local-only change
+  private async withSheet(verb: string, operation: () => Promise<boolean>) {
+    if (!this.service.canWrite()) {
+      throw new Error(`Sign in to Google Sheets to ${verb} workouts that may already be in the sheet`);
+    }
+    return operation();
+  }
+}
+
+export const localWorkoutRepository = new LocalStorageWorkoutRepository();
+
+export const createWorkoutRepository = (service: GoogleSheetsService | null): WorkoutRepository =>
+  service ? new GoogleSheetsWorkoutRepository(service) : localWorkoutRepository;
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { summarizeSessions, workoutSessions } from '@/services/workoutSessions';
+import { makeWorkoutLog } from '@/test/fixtures';
+
+describe('workoutSessions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-04T10:00:00.000Z'));
+    workoutSessions.finish();
+  });
+
+  afterEach(() => {
+    workoutSessions.finish();
+    vi.useRealTimers();
+  });
+
+  it('keeps one session open for the whole visit', () => {
+    const session = workoutSessions.ensure();
+    vi.setSystemTime(new Date('2024-03-04T10:20:00.000Z'));
+
+    expect(workoutSessions.ensure().id).toBe(session.id);
+  });
+
+  it('times a session from when the visit began, not from the first saved log', () => {
+    const session = workoutSessions.ensure();
+    vi.setSystemTime(new Date('2024-03-04T10:25:00.000Z'));
+    const log = makeWorkoutLog({ id: 'log-1', sessionId: session.id, date: new Date().toISOString() });
+    workoutSessions.addLog(session.id, log.id);
+    workoutSessions.finish();
+
+    const [summary] = summarizeSessions([log], workoutSessions.getSessions(), 'kg');
+    expect(summary.durationMinutes).toBe(25);
+    expect(summary.exercises).toBe(1);
+  });
+
+  it('drops sessions finished without any logs', () => {
+    const session = workoutSessions.ensure();
+    workoutSessions.finish();
+
+    expect(workoutSessions.getSessions().some(existing => existing.id === session.id)).toBe(false);
+  });
+});
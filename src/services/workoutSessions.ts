@@ -0,0 +1,189 @@
+import { format, parseISO } from 'date-fns';
+import { WorkoutLog, WorkoutSession } from '@/data/exercises';
+import { createId } from '@/lib/ids';
+import { setWeightIn, type WeightUnit } from '@/lib/units';
+
+export interface SessionSummary {
+  id: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMinutes: number;
+  exercises: number;
+  sets: number;
+  volume: number; // sum of weight × reps in the requested unit
+  logs: WorkoutLog[];
+}
+
+const STORAGE_KEY = 'workout_sessions';
+const MAX_SESSIONS = 500;
+// A session left open this long is closed at its last logged exercise
+const IDLE_TIMEOUT_MS = 3 * 60 * 60_000;
+
+let sessions: WorkoutSession[] = [];
+
+try {
+  sessions = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+} catch {
+  sessions = [];
+}
+
+const listeners = new Set<(sessions: WorkoutSession[]) => void>();
+
+function persist() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions.slice(-MAX_SESSIONS)));
+  } catch (e) {
+    // ignore storage errors
+  }
+}
+
+function emit() {
+  const snapshot = [...sessions];
+  listeners.forEach((cb) => cb(snapshot));
+}
+
+export const isSessionOpen = (session: WorkoutSession, now = Date.now()) =>
+  !session.finishedAt && now - new Date(session.lastActivityAt).getTime() <= IDLE_TIMEOUT_MS;
+
+function update(id: string, changes: Partial<WorkoutSession>) {
+  sessions = sessions.map((session) => (session.id === id ? { ...session, ...changes } : session));
+  persist();
+  emit();
+}
+
+// Sessions opened without logging anything are dropped rather than kept as empty visits
+function close(session: WorkoutSession, finishedAt: string) {
+  if (session.logIds.length > 0) {
+    update(session.id, { finishedAt });
+    return;
+  }
+  sessions = sessions.filter((existing) => existing.id !== session.id);
+  persist();
+  emit();
+}
+
+/**
+ * Groups the exercises logged in one visit into a session. Opening a logger,
+ * a live workout or a program day opens a session and it stays open until
+ * finished or idle.
+ */
+export const workoutSessions = {
+  getActive(): WorkoutSession | null {
+    const active = sessions.find((session) => !session.finishedAt);
+    if (!active) return null;
+
+    if (!isSessionOpen(active)) {
+      close(active, active.lastActivityAt);
+      return null;
+    }
+    return active;
+  },
+  start() {
+    const now = new Date().toISOString();
+    const session: WorkoutSession = { id: createId(), startedAt: now, lastActivityAt: now, logIds: [] };
+    sessions = [...sessions, session];
+    persist();
+    emit();
+    return session;
+  },
+  // The open session, or a new one when a visit begins without one
+  ensure() {
+    return this.getActive() || this.start();
+  },
+  // Call once the log is stored, so a failed save leaves no id behind
+  addLog(sessionId: string, logId: string) {
+    const session = sessions.find((existing) => existing.id === sessionId);
+    if (!session) return;
+    update(session.id, { lastActivityAt: new Date().toISOString(), logIds: [...session.logIds, logId] });
+  },
+  removeLog(logId: string) {
+    const session = sessions.find((existing) => existing.logIds.includes(logId));
+    if (!session) return;
+    update(session.id, { logIds: session.logIds.filter((id) => id !== logId) });
+  },
+  /**
+   * Does `substituteId` in place of `exerciseId` for the rest of the open
+   * session, starting one when none is open. Swaps are always keyed by the
+   * planned exercise, so swapping a substitute again replaces it and
+   * swapping back to the planned exercise undoes the swap.
+   */
+  swap(exerciseId: string, substituteId: string) {
+    const session = this.ensure();
+    const swaps = { ...session.swaps };
+    const plannedId = findSwappedFrom(exerciseId, swaps) || exerciseId;
+    if (substituteId === plannedId) {
+      delete swaps[plannedId];
+    } else {
+      swaps[plannedId] = substituteId;
+    }
+    update(session.id, { lastActivityAt: new Date().toISOString(), swaps });
+  },
+  finish() {
+    const active = this.getActive();
+    if (!active) return;
+    close(active, new Date().toISOString());
+  },
+  getSessions() {
+    return [...sessions];
+  },
+  subscribe(cb: (sessions: WorkoutSession[]) => void) {
+    listeners.add(cb);
+    const unsubscribe = () => { listeners.delete(cb); };
+    return unsubscribe;
+  },
+};
+
+// Swaps of the open session, or none once it has finished or gone idle
+export const getActiveSwaps = (knownSessions: WorkoutSession[], now = Date.now()): Record<string, string> =>
+  knownSessions.find((session) => isSessionOpen(session, now))?.swaps || {};
+
+export const resolveSwap = (exerciseId: string, swaps: Record<string, string> = {}) => swaps[exerciseId] || exerciseId;
+
+// The planned exercise a substitute stands in for, if it is one
+export const findSwappedFrom = (exerciseId: string, swaps: Record<string, string> = {}) =>
+  Object.keys(swaps).find((plannedId) => swaps[plannedId] === exerciseId);
+
+export const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+const logTime = (log: WorkoutLog) => new Date(log.createdAt || log.date).getTime();
+
+/**
+ * One summary per session holding at least one of `logs`. Logs from before
+ * sessions existed, or pulled from a sheet without session ids, are grouped
+ * by day instead.
+ */
+export const summarizeSessions = (
+  logs: WorkoutLog[],
+  knownSessions: WorkoutSession[],
+  unit: WeightUnit
+): SessionSummary[] => {
+  const sessionsById = new Map(knownSessions.map((session) => [session.id, session]));
+  const logsBySession = logs.reduce((acc, log) => {
+    const key = log.sessionId || `day-${format(parseISO(log.date), 'yyyy-MM-dd')}`;
+    (acc[key] = acc[key] || []).push(log);
+    return acc;
+  }, {} as Record<string, WorkoutLog[]>);
+
+  return Object.entries(logsBySession)
+    .map(([id, sessionLogs]) => {
+      const times = sessionLogs.map(logTime);
+      const session = sessionsById.get(id);
+      const startedAt = session?.startedAt || new Date(Math.min(...times)).toISOString();
+      const finishedAt = session ? session.finishedAt : new Date(Math.max(...times)).toISOString();
+      const end = finishedAt ? new Date(finishedAt).getTime() : Math.max(...times);
+
+      return {
+        id,
+        startedAt,
+        finishedAt,
+        durationMinutes: Math.max(0, Math.round((end - new Date(startedAt).getTime()) / 60_000)),
+        exercises: new Set(sessionLogs.map((log) => log.exerciseId)).size,
+        sets: sessionLogs.reduce((sum, log) => sum + log.sets.length, 0),
+        volume: Math.round(sessionLogs.reduce((sum, log) =>
+          sum + log.sets.reduce((setSum, set) => setSum + setWeightIn(set, unit) * set.reps, 0), 0)),
+        logs: sessionLogs,
+      };
+    })
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+};
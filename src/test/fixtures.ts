@@ -0,0 +1,35 @@
+import { findExerciseById, type WorkoutLog, type WorkoutSet } from '@/data/exercises';
+
+type SetInput = Omit<WorkoutSet, 'id'> & { id?: string };
+
+export interface WorkoutLogInput extends Partial<Omit<WorkoutLog, 'sets'>> {
+  sets?: SetInput[];
+}
+
+let nextLogNumber = 1;
+
+/**
+ * A workout log for tests. Name and muscle group come from the catalog entry
+ * of `exerciseId` (Barbell Bench Press unless given) and sets get ids derived
+ * from the log id.
+ */
+export const makeWorkoutLog = ({
+  exerciseId = 'chest-4',
+  sets = [{ reps: 10, weight: 60, unit: 'kg' }],
+  ...overrides
+}: WorkoutLogInput = {}): WorkoutLog => {
+  const exercise = findExerciseById(exerciseId);
+  const id = overrides.id ?? `log-${nextLogNumber++}`;
+  const date = overrides.date ?? '2024-03-04T10:00:00.000Z';
+
+  return {
+    id,
+    exerciseId,
+    exerciseName: exercise?.name ?? exerciseId,
+    muscleGroup: exercise?.muscleGroup ?? '',
+    date,
+    createdAt: date,
+    ...overrides,
+    sets: sets.map((set, index) => ({ id: `${id}-set-${index + 1}`, ...set })),
+  };
+};